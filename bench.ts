@@ -0,0 +1,226 @@
+import { parseArgs } from "util";
+import { codecs, feedConfigKey, resolveCodecSettings, type CodecSettings, type CompressionType } from "./codecs";
+import { generateLargePriceDataset } from "./dataset";
+
+// --- Headless compression benchmark ---
+// Sweeps the codecs and their settings over generated datasets of several sizes, writes the
+// measurements as CSV and JSON and prints the size/speed Pareto frontier of each dataset size.
+//
+//   bun run bench --sizes 100,1000 --iterations 10 --warmup 2 --out out/bench
+//
+// Brotli sweeps quality × LGWIN × LGBLOCK, zstd and gzip sweep their levels; every other codec
+// runs once with its default settings.
+
+const { values: options } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    sizes: { type: "string", default: "100,1000" },
+    iterations: { type: "string", default: "10" },
+    warmup: { type: "string", default: "2" },
+    codecs: { type: "string", default: [...codecs.keys()].join(",") },
+    "brotli-quality": { type: "string", default: "1,4,6,9,11" },
+    "brotli-lgwin": { type: "string", default: "16,22" },
+    "brotli-lgblock": { type: "string", default: "16,20,24" },
+    "zstd-levels": { type: "string", default: "1,3,6,9,12,15,19" },
+    "gzip-levels": { type: "string", default: "1,3,6,9" },
+    out: { type: "string", default: "out/bench" }
+  }
+});
+
+// Brotli's LGBLOCK range (the codec registry does not expose it to feeds)
+const BROTLI_LGBLOCK_RANGE = { min: 16, max: 24 };
+
+interface BenchConfig {
+  codec: CompressionType;
+  settings: CodecSettings;
+}
+
+interface BenchResult {
+  items: number;
+  codec: CompressionType;
+  config: string;
+  level: number | null;
+  window: number | null;
+  block: number | null;
+  originalBytes: number;
+  compressedBytes: number;
+  ratio: number;
+  compressMs: number;
+  decompressMs: number;
+  compressMBps: number;
+  decompressMBps: number;
+  pareto: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function parseIntegerList(name: string, value: string, min = -Infinity): number[] {
+  const numbers = value.split(",").filter(Boolean).map(Number);
+  if (numbers.length === 0 || !numbers.every(Number.isInteger)) {
+    fail(`--${name} must be a comma-separated list of integers`);
+  }
+  if (numbers.some(number => number < min)) fail(`--${name} must only list integers of at least ${min}`);
+  return numbers;
+}
+
+function parseCount(name: string, value: string, min: number): number {
+  const count = Number(value);
+  if (value.trim() === "" || !Number.isInteger(count) || count < min) fail(`--${name} must be an integer of at least ${min}`);
+  return count;
+}
+
+function resolveOrFail(codec: CompressionType, level?: number, window?: number): CodecSettings {
+  const settings = resolveCodecSettings(codec, level, window);
+  if (typeof settings === "string") fail(settings);
+  return settings;
+}
+
+// --- Sweep plan ---
+function sweepConfigs(codec: CompressionType): BenchConfig[] {
+  switch (codec) {
+    case "brotli": {
+      const configs: BenchConfig[] = [];
+      for (const quality of parseIntegerList("brotli-quality", options["brotli-quality"])) {
+        for (const lgwin of parseIntegerList("brotli-lgwin", options["brotli-lgwin"])) {
+          for (const block of parseIntegerList("brotli-lgblock", options["brotli-lgblock"])) {
+            if (block < BROTLI_LGBLOCK_RANGE.min || block > BROTLI_LGBLOCK_RANGE.max) {
+              fail(`brotli lgblock must be an integer from ${BROTLI_LGBLOCK_RANGE.min} to ${BROTLI_LGBLOCK_RANGE.max}`);
+            }
+            configs.push({ codec, settings: { ...resolveOrFail(codec, quality, lgwin), block } });
+          }
+        }
+      }
+      return configs;
+    }
+    case "zstd":
+      return parseIntegerList("zstd-levels", options["zstd-levels"]).map(level => ({ codec, settings: resolveOrFail(codec, level) }));
+    case "gzip":
+      return parseIntegerList("gzip-levels", options["gzip-levels"]).map(level => ({ codec, settings: resolveOrFail(codec, level) }));
+    default:
+      return [{ codec, settings: resolveOrFail(codec) }];
+  }
+}
+
+// --- Measurement ---
+function median(samples: number[]): number {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] ?? 0 : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+function timeRuns(runs: number, run: () => void): number[] {
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const startTime = performance.now();
+    run();
+    times.push(performance.now() - startTime);
+  }
+  return times;
+}
+
+function measure(items: number, input: Uint8Array, config: BenchConfig, iterations: number, warmup: number): BenchResult {
+  const codec = codecs.get(config.codec);
+  if (!codec) fail(`codec must be one of ${[...codecs.keys()].join(", ")}`);
+
+  const compressed = codec.compress(input, config.settings);
+  if (Buffer.compare(codec.decompress(compressed), input) !== 0) {
+    fail(`${feedConfigKey(config.codec, config.settings)} did not round-trip`);
+  }
+
+  timeRuns(warmup, () => codec.compress(input, config.settings));
+  const compressMs = median(timeRuns(iterations, () => codec.compress(input, config.settings)));
+  timeRuns(warmup, () => codec.decompress(compressed));
+  const decompressMs = median(timeRuns(iterations, () => codec.decompress(compressed)));
+
+  return {
+    items,
+    codec: config.codec,
+    config: feedConfigKey(config.codec, config.settings),
+    level: config.settings.level ?? null,
+    window: config.settings.window ?? null,
+    block: config.settings.block ?? null,
+    originalBytes: input.length,
+    compressedBytes: compressed.length,
+    ratio: input.length / compressed.length,
+    compressMs,
+    decompressMs,
+    compressMBps: input.length / 1e6 / (compressMs / 1000),
+    decompressMBps: input.length / 1e6 / (decompressMs / 1000),
+    pareto: false
+  };
+}
+
+// A result is on the frontier when no other result is at least as small and at least as fast,
+// and strictly better in one of the two
+function markParetoFrontier(results: BenchResult[]) {
+  for (const result of results) {
+    result.pareto = !results.some(other => other !== result &&
+      other.compressedBytes <= result.compressedBytes && other.compressMs <= result.compressMs &&
+      (other.compressedBytes < result.compressedBytes || other.compressMs < result.compressMs));
+  }
+}
+
+// --- Output ---
+const CSV_COLUMNS: (keyof BenchResult)[] = [
+  "items", "codec", "config", "level", "window", "block", "originalBytes", "compressedBytes",
+  "ratio", "compressMs", "decompressMs", "compressMBps", "decompressMBps", "pareto"
+];
+
+function toCsv(results: BenchResult[]): string {
+  const rows = results.map(result => CSV_COLUMNS.map(column => {
+    const value = result[column];
+    if (value === null) return "";
+    return typeof value === "number" && !Number.isInteger(value) ? value.toFixed(4) : String(value);
+  }).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+function printFrontier(items: number, results: BenchResult[]) {
+  const frontier = results.filter(result => result.pareto).sort((a, b) => a.compressMs - b.compressMs);
+  console.log(`\n🏆 Pareto frontier for ${items.toLocaleString()} items (size vs. compress time, fastest first):`);
+  for (const result of frontier) {
+    console.log(`  ${result.config.padEnd(20)} ${result.compressedBytes.toLocaleString().padStart(12)} bytes  ${result.ratio.toFixed(2).padStart(6)}x  ${result.compressMs.toFixed(2).padStart(9)}ms  ${result.compressMBps.toFixed(1).padStart(8)} MB/s`);
+  }
+}
+
+// --- Run ---
+const sizes = parseIntegerList("sizes", options.sizes, 1);
+const iterations = parseCount("iterations", options.iterations, 1);
+const warmup = parseCount("warmup", options.warmup, 0);
+const configs = options.codecs.split(",").filter(Boolean).flatMap(sweepConfigs);
+
+console.log(`🧪 Benchmarking ${configs.length} configurations × ${sizes.length} dataset sizes (${iterations} iterations, ${warmup} warmup)`);
+
+const results: BenchResult[] = [];
+for (const items of sizes) {
+  // Same shape as a broadcast tick
+  const dataset = generateLargePriceDataset(items).map(item => ({ ...item, messageId: 1 }));
+  const input = Buffer.from(JSON.stringify(dataset));
+  console.log(`\n📦 ${items.toLocaleString()} items (${input.length.toLocaleString()} bytes of JSON)`);
+
+  const sizeResults = configs.map(config => {
+    const result = measure(items, input, config, iterations, warmup);
+    console.log(`  ⏱️ ${result.config.padEnd(20)} ${result.compressedBytes.toLocaleString().padStart(12)} bytes  ${result.ratio.toFixed(2).padStart(6)}x  compress ${result.compressMs.toFixed(2)}ms  decompress ${result.decompressMs.toFixed(2)}ms`);
+    return result;
+  });
+  markParetoFrontier(sizeResults);
+  results.push(...sizeResults);
+}
+
+for (const items of sizes) {
+  printFrontier(items, results.filter(result => result.items === items));
+}
+
+await Bun.write(`${options.out}.csv`, toCsv(results));
+await Bun.write(`${options.out}.json`, JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  runtime: `bun ${Bun.version}`,
+  iterations,
+  warmup,
+  results
+}, null, 2));
+
+console.log(`\n💾 Wrote ${results.length} results to ${options.out}.csv and ${options.out}.json`);
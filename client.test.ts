@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from "bun:test";
+import type { Server, ServerWebSocket, Subprocess } from "bun";
+import type { CompressionType } from "./codecs";
+import { connectFeed, type FeedClient, type FeedMessage } from "./client";
+
+// --- Test server ---
+// index.ts in a child process on a free port, with small datasets and short ticks so every test gets
+// a few frames within a second
+const DATASET_SIZE = 50;
+const INTERVAL_MS = 200;
+const STARTUP_TIMEOUT_MS = 30_000;
+const ENVELOPE_HEADER_BYTES = 52;
+
+let server: Subprocess;
+let url: string;
+
+// Covers the server's startup in beforeAll; the tests have their own, shorter limits
+setDefaultTimeout(STARTUP_TIMEOUT_MS);
+
+function freePort(): number {
+  const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+  const { port } = probe;
+  probe.stop(true);
+  if (port === undefined) throw new Error("no free port");
+  return port;
+}
+
+async function waitForServer(baseUrl: string) {
+  const deadline = performance.now() + STARTUP_TIMEOUT_MS;
+  while (performance.now() < deadline) {
+    if (server.exitCode !== null) throw new Error(`server exited with code ${server.exitCode}`);
+    try {
+      if ((await fetch(`${baseUrl}/codecs`)).ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await Bun.sleep(100);
+  }
+  throw new Error(`server did not start within ${STARTUP_TIMEOUT_MS}ms`);
+}
+
+beforeAll(async () => {
+  const port = freePort();
+  url = `http://localhost:${port}`;
+  server = Bun.spawn([process.execPath, "run", "index.ts", "--port", String(port), "--dataset-size", String(DATASET_SIZE), "--dataset-interval-ms", String(INTERVAL_MS)], {
+    cwd: import.meta.dir,
+    stdout: "ignore",
+    stderr: "ignore"
+  });
+  await waitForServer(url);
+});
+
+afterAll(() => {
+  server?.kill();
+});
+
+// --- Helpers ---
+function withTimeout<T>(promise: Promise<T>, what: string, ms = 5000): Promise<T> {
+  let timer: Timer | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out waiting for ${what}`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function take(feed: FeedClient, count: number): Promise<FeedMessage[]> {
+  const messages: FeedMessage[] = [];
+  await withTimeout((async () => {
+    for await (const message of feed) {
+      messages.push(message);
+      if (messages.length === count) break;
+    }
+  })(), `${count} messages`);
+  return messages;
+}
+
+// Resolves with the first message the predicate accepts
+function nextMessage(feed: FeedClient, accept: (message: FeedMessage) => boolean = () => true): Promise<FeedMessage> {
+  return withTimeout(new Promise((resolve) => {
+    const remove = feed.on("message", (message) => {
+      if (!accept(message)) return;
+      remove();
+      resolve(message);
+    });
+  }), "a message");
+}
+
+function nextError(feed: FeedClient): Promise<Error> {
+  return withTimeout(new Promise((resolve) => {
+    const remove = feed.on("error", (error) => {
+      remove();
+      resolve(error);
+    });
+  }), "a decode error");
+}
+
+// A /feed proxy in front of the test server that hands every binary frame to rewrite on the way to
+// the client, which returns the frame to send (changed or not) or null to drop it
+interface ProxySocket {
+  query: string;
+  upstream: WebSocket | null;
+  frames: number;
+}
+
+function startProxy(rewrite: (frame: Uint8Array, index: number) => Uint8Array | null): Server {
+  return Bun.serve<ProxySocket, never>({
+    port: 0,
+    fetch(request, proxy) {
+      const { pathname, search } = new URL(request.url);
+      if (pathname === "/feed") {
+        return proxy.upgrade(request, { data: { query: search, upstream: null, frames: 0 } }) ? undefined : new Response("Upgrade failed", { status: 400 });
+      }
+      return fetch(`${url}${pathname}${search}`);
+    },
+    websocket: {
+      open(ws: ServerWebSocket<ProxySocket>) {
+        const upstream = new WebSocket(`${url.replace(/^http/, "ws")}/feed${ws.data.query}`);
+        upstream.binaryType = "arraybuffer";
+        upstream.onmessage = ({ data }) => {
+          if (typeof data === "string") {
+            ws.send(data);
+            return;
+          }
+          const frame = rewrite(new Uint8Array(data as ArrayBuffer), ws.data.frames++);
+          if (frame) ws.send(frame);
+        };
+        upstream.onclose = ({ code, reason }) => ws.close(code, reason);
+        ws.data.upstream = upstream;
+      },
+      message(ws: ServerWebSocket<ProxySocket>, message) {
+        ws.data.upstream?.send(message);
+      },
+      close(ws: ServerWebSocket<ProxySocket>) {
+        ws.data.upstream?.close();
+      }
+    }
+  });
+}
+
+// --- Decoding ---
+describe("connectFeed", () => {
+  for (const codec of ["none", "gzip", "brotli", "zstd"] as CompressionType[]) {
+    test(`iterates and decodes ${codec} frames`, async () => {
+      const feed = await connectFeed({ url, codec });
+      try {
+        const messages = await take(feed, 3);
+        for (const message of messages) {
+          expect(message.envelope.codec).toBe(codec);
+          expect(message.rows).toHaveLength(DATASET_SIZE);
+          expect(typeof message.rows[0]?.price).toBe("string");
+          expect(message.stats.decodedBytes).toBe(message.envelope.originalSize);
+          expect(message.stats.compressedBytes).toBe(message.envelope.compressedSize);
+        }
+        expect(messages.map(message => message.messageId)).toEqual([...messages.map(message => message.messageId)].sort((a, b) => a - b));
+        expect(feed.totals()).toMatchObject({ messages: messages.length, errors: 0, gaps: 0 });
+      } finally {
+        feed.close();
+      }
+    });
+  }
+});
+
+// --- Control protocol ---
+describe("control commands", () => {
+  test("setCodec switches the feed", async () => {
+    const feed = await connectFeed({ url, codec: "gzip" });
+    try {
+      await take(feed, 1);
+      const ack = await withTimeout(feed.setCodec({ codec: "zstd", level: 3 }), "the setCodec ack");
+      expect(ack).toMatchObject({ op: "ack", cmd: "setCodec", codec: "zstd", level: 3 });
+
+      const message = await nextMessage(feed, message => message.envelope.codec === "zstd");
+      expect(message.envelope.settings.level).toBe(3);
+      expect(message.rows).toHaveLength(DATASET_SIZE);
+    } finally {
+      feed.close();
+    }
+  });
+
+  test("pause stops the frames and resume restarts them", async () => {
+    const feed = await connectFeed({ url, codec: "gzip" });
+    try {
+      await take(feed, 1);
+      expect(await withTimeout(feed.pause(), "the pause ack")).toMatchObject({ op: "ack", cmd: "pause" });
+      // Frames sent before the ack may still be decoding
+      await Bun.sleep(INTERVAL_MS);
+
+      const paused = feed.totals().messages;
+      await Bun.sleep(4 * INTERVAL_MS);
+      expect(feed.totals().messages).toBe(paused);
+
+      expect(await withTimeout(feed.resume(), "the resume ack")).toMatchObject({ op: "ack", cmd: "resume" });
+      const message = await nextMessage(feed);
+      expect(message.rows).toHaveLength(DATASET_SIZE);
+    } finally {
+      feed.close();
+    }
+  });
+});
+
+// --- Rejected settings ---
+describe("rejected settings", () => {
+  const expectPolicyClose = async (feed: FeedClient) => {
+    const closed = withTimeout(new Promise<number>(resolve => feed.on("close", ({ code }) => resolve(code))), "the close");
+    await expect(take(feed, 1)).rejects.toThrow(/Feed closed with code 1008/);
+    expect(await closed).toBe(1008);
+  };
+
+  test("an unknown codec closes the feed with 1008", async () => {
+    const codec = "unknown" as CompressionType;
+    await expectPolicyClose(await connectFeed({ url, codec, decoders: { [codec]: payload => payload } }));
+  });
+
+  test("a level on none closes the feed with 1008", async () => {
+    await expectPolicyClose(await connectFeed({ url, codec: "none", level: 3 }));
+  });
+});
+
+// --- Failures and gaps (through the proxy) ---
+describe("frame checks", () => {
+  let proxy: Server | null = null;
+
+  afterAll(() => {
+    proxy?.stop(true);
+  });
+
+  const proxyUrl = (rewrite: (frame: Uint8Array, index: number) => Uint8Array | null) => {
+    proxy?.stop(true);
+    proxy = startProxy(rewrite);
+    return `http://localhost:${proxy.port}`;
+  };
+
+  test("a payload that doesn't decompress is reported as a decode error", async () => {
+    const feed = await connectFeed({
+      url: proxyUrl((frame) => {
+        const corrupt = frame.slice();
+        corrupt.fill(0xff, ENVELOPE_HEADER_BYTES);
+        return corrupt;
+      }),
+      codec: "gzip"
+    });
+    try {
+      const error = await nextError(feed);
+      expect(error).toBeInstanceOf(Error);
+      expect(feed.totals().errors).toBeGreaterThan(0);
+      expect(feed.totals().messages).toBe(0);
+    } finally {
+      feed.close();
+    }
+  });
+
+  test("a checksum mismatch is reported as a decode error", async () => {
+    const feed = await connectFeed({
+      url: proxyUrl((frame) => {
+        const corrupt = frame.slice();
+        const view = new DataView(corrupt.buffer);
+        view.setUint32(16, ~view.getUint32(16) >>> 0);
+        return corrupt;
+      }),
+      codec: "none"
+    });
+    try {
+      const error = await nextError(feed);
+      expect(error.message).toMatch(/checksum mismatch/);
+      expect(feed.totals().messages).toBe(0);
+    } finally {
+      feed.close();
+    }
+  });
+
+  test("a sequence gap triggers a resync", async () => {
+    // Frame 2 never reaches the client. Frame 0 is the join snapshot only if the feed already had a
+    // frame; either way frames 0 and 1 are consecutive, so the gap comes at frame 3.
+    const feed = await connectFeed({ url: proxyUrl((frame, index) => index === 2 ? null : frame), codec: "gzip" });
+    try {
+      const messages = await take(feed, 5);
+      const sequences = messages.map(message => message.envelope.sequence);
+      // The resync replays the dropped frame, so none is missing or handed out twice
+      sequences.slice(1).forEach((sequence, index) => expect(sequence).toBe((sequences[index] ?? 0) + 1));
+      expect(feed.totals()).toMatchObject({ gaps: 1, resyncs: 1, errors: 0 });
+    } finally {
+      feed.close();
+    }
+  });
+});
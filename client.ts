@@ -0,0 +1,557 @@
+import type { CodecSettings, CompressionType } from "./codecs";
+import type { PriceData } from "./dataset";
+import type { ColumnarBatch, PayloadLayout } from "./layout";
+import type { SerializationFormat } from "./serializers";
+
+// --- Feed client ---
+// Typed consumer of /feed for services, in Bun, Node or a browser: it connects with the chosen codec
+// and settings, opens each frame envelope, decompresses and deserializes the payload and hands out
+// the rows with the envelope and per-message stats.
+//
+//   const feed = await connectFeed({ url: "http://localhost:3001", codec: "zstd" });
+//   for await (const message of feed) console.log(message.rows.length, message.stats);
+//
+// At runtime it only uses web APIs (WebSocket, fetch, DecompressionStream, TextDecoder, atob); the
+// server modules above are imported for their types only. Codecs and formats the runtime can't
+// decode natively are plugged in through `decoders` and `deserializers`: Node's
+// DecompressionStream has no Brotli or Zstd, so pass zlibDecoders(zlib) there.
+//
+// Frames are checked against their sequence numbers as they arrive: on a gap the client asks the
+// server to resync and skips frames until it has answered, so messages are never handed out of order
+// or twice (see "Sequence numbers and resync" in index.ts).
+
+export type FrameDecoder = (payload: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+export type FrameDeserializer = (bytes: Uint8Array) => unknown;
+
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+export interface FeedSettings {
+  codec: CompressionType;
+  level?: number;
+  window?: number;
+  format?: SerializationFormat;
+  layout?: PayloadLayout;
+  // Only rows of these symbols and exchanges; all rows when omitted
+  symbols?: string[];
+  exchanges?: string[];
+}
+
+export interface FeedClientOptions extends FeedSettings {
+  // Server base URL, http(s) or ws(s), e.g. "http://localhost:3001"
+  url: string;
+  encoding?: "binary" | "base64";
+  // Merged over the defaults, by codec name (none, and every DecompressionStream format the runtime has)
+  decoders?: Record<string, FrameDecoder>;
+  // Merged over the defaults, by format name (json)
+  deserializers?: Record<string, FrameDeserializer>;
+  // Check the decoded bytes against the envelope's size and CRC-32 (default true)
+  verify?: boolean;
+  // Ask the server for the missed frames when the sequence numbers show a gap (default true);
+  // otherwise gaps are only counted
+  resync?: boolean;
+  // For runtimes without a global WebSocket, e.g. the ws package on Node before 22
+  WebSocket?: WebSocketConstructor;
+}
+
+// The frame envelope (layout in envelope.ts) without its payload
+export interface FrameEnvelope {
+  codec: CompressionType;
+  format: SerializationFormat;
+  messageId: number;
+  originalSize: number;
+  compressedSize: number;
+  checksum: number;
+  compressMs: number;
+  // Server clock, milliseconds since the epoch
+  generatedAt: number;
+  sentAt: number;
+  settings: CodecSettings;
+  dictionaryId: number | null;
+  streamChunk: boolean;
+  sequence: number;
+  // The feed's latest frame repeated for a join or a resync
+  snapshot: boolean;
+}
+
+export interface MessageStats {
+  // The WebSocket frame as received: envelope and payload, base64 text on encoding=base64
+  wireBytes: number;
+  // Compressed payload
+  compressedBytes: number;
+  // Serialized bytes after decompression
+  decodedBytes: number;
+  // Decompression, checksum and deserialization
+  decodeMs: number;
+}
+
+export interface FeedMessage<Row = PriceData> {
+  messageId: number;
+  rows: Row[];
+  envelope: FrameEnvelope;
+  stats: MessageStats;
+}
+
+// Sums over every decoded message; errors counts frames that failed to decode, gaps the times
+// frames were missing and resyncs the resync requests sent
+export interface FeedTotals {
+  messages: number;
+  errors: number;
+  gaps: number;
+  resyncs: number;
+  wireBytes: number;
+  compressedBytes: number;
+  decodedBytes: number;
+  decodeMs: number;
+}
+
+export interface FeedClose {
+  code: number;
+  reason: string;
+}
+
+// The server's answer to setCodec, pause, resume and resync
+export interface ControlAck {
+  op: "ack";
+  cmd: string;
+  // Not on resync acks
+  key?: string;
+  [field: string]: unknown;
+}
+
+export interface FeedClient<Row = PriceData> extends AsyncIterable<FeedMessage<Row>> {
+  // Listeners are called in frame order; each call returns a function that removes the listener
+  on(event: "message", listener: (message: FeedMessage<Row>) => void): () => void;
+  on(event: "error", listener: (error: Error, frame: string | Uint8Array) => void): () => void;
+  on(event: "close", listener: (close: FeedClose) => void): () => void;
+  // In-band control commands; omitted settings fall back to the server defaults
+  setCodec(settings: FeedSettings): Promise<ControlAck>;
+  pause(): Promise<ControlAck>;
+  resume(): Promise<ControlAck>;
+  // Asks for the frames after the last one taken; frames are skipped until the ack
+  resync(): Promise<ControlAck>;
+  totals(): FeedTotals;
+  close(): void;
+}
+
+// --- Envelope ---
+const ENVELOPE_VERSION = 3;
+const ENVELOPE_HEADER_BYTES = 52;
+
+interface TagTables {
+  codecs: CompressionType[];
+  formats: SerializationFormat[];
+}
+
+function readEnvelope(bytes: Uint8Array, tags: TagTables): { envelope: FrameEnvelope; payload: Uint8Array } {
+  if (bytes.length < ENVELOPE_HEADER_BYTES) throw new Error(`frame of ${bytes.length} bytes is shorter than an envelope`);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(0);
+  if (version !== ENVELOPE_VERSION) throw new Error(`unsupported envelope version ${version}`);
+
+  const codec = tags.codecs[view.getUint8(1)];
+  const format = tags.formats[view.getUint8(2)];
+  if (codec === undefined) throw new Error(`unknown codec tag ${view.getUint8(1)}`);
+  if (format === undefined) throw new Error(`unknown format tag ${view.getUint8(2)}`);
+
+  const flags = view.getUint8(3);
+  const compressedSize = view.getUint32(12);
+  const payload = bytes.subarray(ENVELOPE_HEADER_BYTES);
+  if (payload.length !== compressedSize) throw new Error(`payload is ${payload.length} bytes, the envelope says ${compressedSize}`);
+
+  const settings: CodecSettings = {};
+  if (flags & 1) settings.level = view.getInt8(40);
+  if (flags & 2) settings.window = view.getUint8(41);
+
+  return {
+    envelope: {
+      codec,
+      format,
+      messageId: view.getUint32(4),
+      originalSize: view.getUint32(8),
+      compressedSize,
+      checksum: view.getUint32(16),
+      compressMs: view.getUint32(20) / 1000,
+      generatedAt: view.getFloat64(24),
+      sentAt: view.getFloat64(32),
+      settings,
+      dictionaryId: flags & 4 ? view.getUint32(44) : null,
+      streamChunk: (flags & 8) !== 0,
+      sequence: view.getUint32(48),
+      snapshot: (flags & 16) !== 0
+    },
+    payload
+  };
+}
+
+// CRC-32 (IEEE), the envelope checksum of the original bytes
+const CRC32_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function verifyEnvelope(envelope: FrameEnvelope, bytes: Uint8Array) {
+  if (bytes.length !== envelope.originalSize) {
+    throw new Error(`#${envelope.messageId} decoded to ${bytes.length} bytes, the envelope says ${envelope.originalSize}`);
+  }
+  const actual = crc32(bytes);
+  if (actual !== envelope.checksum) {
+    throw new Error(`#${envelope.messageId} checksum mismatch: CRC-32 ${actual.toString(16)}, the envelope says ${envelope.checksum.toString(16)}`);
+  }
+}
+
+// --- Decoders ---
+type StreamFormat = ConstructorParameters<typeof DecompressionStream>[0];
+
+function streamDecoder(format: string): FrameDecoder | null {
+  try {
+    new DecompressionStream(format as StreamFormat);
+  } catch {
+    return null;
+  }
+  return async (payload) => {
+    const stream = new Blob([payload]).stream().pipeThrough(new DecompressionStream(format as StreamFormat));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  };
+}
+
+// Registry codec names that are DecompressionStream formats
+const STREAM_CODECS = ["gzip", "deflate-raw", "brotli", "zstd"];
+
+function defaultDecoders(): Record<string, FrameDecoder> {
+  const decoders: Record<string, FrameDecoder> = { none: (payload) => payload };
+  for (const codec of STREAM_CODECS) {
+    const decoder = streamDecoder(codec);
+    if (decoder) decoders[codec] = decoder;
+  }
+  return decoders;
+}
+
+// The parts of node:zlib the decoders use; taken as a parameter so browser bundles don't pull it in
+export interface ZlibDecompressors {
+  gunzipSync(input: Uint8Array): Uint8Array;
+  inflateRawSync(input: Uint8Array): Uint8Array;
+  brotliDecompressSync(input: Uint8Array): Uint8Array;
+  // Node 22.15 and Bun
+  zstdDecompressSync?(input: Uint8Array): Uint8Array;
+}
+
+// Synchronous decoders for Bun and Node: connectFeed({ ..., decoders: zlibDecoders(zlib) })
+export function zlibDecoders(zlib: ZlibDecompressors): Record<string, FrameDecoder> {
+  const decoders: Record<string, FrameDecoder> = {
+    gzip: (payload) => zlib.gunzipSync(payload),
+    "deflate-raw": (payload) => zlib.inflateRawSync(payload),
+    brotli: (payload) => zlib.brotliDecompressSync(payload)
+  };
+  const { zstdDecompressSync } = zlib;
+  if (zstdDecompressSync) decoders.zstd = (payload) => zstdDecompressSync(payload);
+  return decoders;
+}
+
+const textDecoder = new TextDecoder();
+
+const DEFAULT_DESERIALIZERS: Record<string, FrameDeserializer> = {
+  json: (bytes) => JSON.parse(textDecoder.decode(bytes))
+};
+
+// Columnar batches (see layout.ts) back to rows; rows pass through
+function toRows(payload: unknown): unknown[] {
+  if (Array.isArray(payload)) return payload;
+
+  const batch = payload as ColumnarBatch;
+  if (batch?.layout !== "columns") throw new Error("payload is neither rows nor a columnar batch");
+
+  const rows: Record<string, unknown>[] = Array.from({ length: batch.length }, () => ({}));
+  for (const column of batch.columns) {
+    let values: unknown[];
+    if (column.type === "dictionary") {
+      values = column.values.map(index => column.dictionary[index]);
+    } else if (column.type === "decimal") {
+      values = column.values.map(value => value?.toFixed(column.decimals));
+      column.exceptions.forEach(([row, text]) => { values[row] = text; });
+    } else {
+      values = column.values;
+    }
+    rows.forEach((row, index) => { row[column.name] = values[index]; });
+  }
+  return rows;
+}
+
+function toBytes(data: unknown): Uint8Array {
+  if (typeof data === "string") return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  throw new Error(`unexpected frame of type ${typeof data}`);
+}
+
+// --- Connecting ---
+// The /feed query parameters and setCodec fields: filters are comma-separated lists on the wire
+function feedFields(settings: FeedSettings): Record<string, string | number> {
+  const fields: Record<string, string | number> = { codec: settings.codec };
+  if (settings.level !== undefined) fields.level = settings.level;
+  if (settings.window !== undefined) fields.window = settings.window;
+  if (settings.format !== undefined) fields.format = settings.format;
+  if (settings.layout !== undefined) fields.layout = settings.layout;
+  if (settings.symbols !== undefined) fields.symbols = settings.symbols.join(",");
+  if (settings.exchanges !== undefined) fields.exchange = settings.exchanges.join(",");
+  return fields;
+}
+
+function feedQuery(settings: FeedSettings, encoding: string): string {
+  const params = new URLSearchParams({ encoding });
+  for (const [name, value] of Object.entries(feedFields(settings))) params.set(name, String(value));
+  return params.toString();
+}
+
+// Codec and format names by envelope tag, from the server's registries
+async function loadTagTables(httpUrl: string): Promise<TagTables> {
+  const [codecList, formatList] = await Promise.all(["codecs", "serializers"].map(async (path) => {
+    const response = await fetch(`${httpUrl}/${path}`);
+    if (!response.ok) throw new Error(`GET /${path} failed with ${response.status}`);
+    return await response.json() as { name: string; tag: number }[];
+  }));
+
+  const byTag = (entries: { name: string; tag: number }[] = []) => {
+    const names: string[] = [];
+    for (const entry of entries) names[entry.tag] = entry.name;
+    return names;
+  };
+  return { codecs: byTag(codecList), formats: byTag(formatList) };
+}
+
+function checkSettings(settings: FeedSettings, decoders: Record<string, FrameDecoder>, deserializers: Record<string, FrameDeserializer>) {
+  if (!decoders[settings.codec]) throw new Error(`No decoder for codec ${settings.codec}; pass one in options.decoders`);
+  const format = settings.format ?? "json";
+  if (!deserializers[format]) throw new Error(`No deserializer for format ${format}; pass one in options.deserializers`);
+}
+
+// Resolves once the socket is open. Settings the server rejects close the socket with code 1008,
+// which ends iteration with an error.
+export async function connectFeed<Row = PriceData>(options: FeedClientOptions): Promise<FeedClient<Row>> {
+  const httpUrl = options.url.replace(/^ws/, "http").replace(/\/$/, "");
+  const encoding = options.encoding ?? "binary";
+  const verify = options.verify ?? true;
+  const autoResync = options.resync ?? true;
+  const decoders = { ...defaultDecoders(), ...options.decoders };
+  const deserializers = { ...DEFAULT_DESERIALIZERS, ...options.deserializers };
+  checkSettings(options, decoders, deserializers);
+
+  const tags = await loadTagTables(httpUrl);
+  const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+  if (!WebSocketImpl) throw new Error("No WebSocket implementation; pass one in options.WebSocket");
+
+  const socket = new WebSocketImpl(`${httpUrl.replace(/^http/, "ws")}/feed?${feedQuery(options, encoding)}`);
+  socket.binaryType = "arraybuffer";
+
+  const listeners = {
+    message: new Set<(message: FeedMessage<Row>) => void>(),
+    error: new Set<(error: Error, frame: string | Uint8Array) => void>(),
+    close: new Set<(close: FeedClose) => void>()
+  };
+  const totals: FeedTotals = { messages: 0, errors: 0, gaps: 0, resyncs: 0, wireBytes: 0, compressedBytes: 0, decodedBytes: 0, decodeMs: 0 };
+  // Control commands waiting for their reply; the server answers them in order
+  const pendingReplies: { resolve(ack: ControlAck): void; reject(error: Error): void }[] = [];
+  let closed: FeedClose | null = null;
+  // Sequence number of the last frame taken; null until the first one and after a switch of feed
+  let lastSequence: number | null = null;
+  let resyncPending = false;
+
+  // Decoders may be async; frames are still handed out in the order they arrived
+  let decodeQueue = Promise.resolve();
+
+  async function decodeFrame(data: unknown): Promise<FeedMessage<Row>> {
+    const frame = toBytes(data);
+    const { envelope, payload } = readEnvelope(frame, tags);
+    const decode = decoders[envelope.codec];
+    if (!decode) throw new Error(`No decoder for codec ${envelope.codec}`);
+    const deserialize = deserializers[envelope.format];
+    if (!deserialize) throw new Error(`No deserializer for format ${envelope.format}`);
+
+    const startTime = performance.now();
+    const decoded = await decode(payload);
+    if (verify) verifyEnvelope(envelope, decoded);
+    const rows = toRows(deserialize(decoded)) as Row[];
+    const decodeMs = performance.now() - startTime;
+
+    return {
+      messageId: envelope.messageId,
+      rows,
+      envelope,
+      stats: {
+        wireBytes: typeof data === "string" ? data.length : frame.length,
+        compressedBytes: envelope.compressedSize,
+        decodedBytes: decoded.length,
+        decodeMs
+      }
+    };
+  }
+
+  // False for frames already taken, and for frames after a gap until the resync is answered
+  function checkSequence(data: unknown): boolean {
+    let envelope: FrameEnvelope;
+    try {
+      ({ envelope } = readEnvelope(toBytes(data), tags));
+    } catch {
+      // decodeFrame reports it
+      return true;
+    }
+
+    if (envelope.snapshot || lastSequence === null || envelope.sequence === lastSequence + 1) {
+      lastSequence = envelope.sequence;
+      return true;
+    }
+    if (envelope.sequence <= lastSequence) return false;
+    if (resyncPending) return false;
+
+    totals.gaps++;
+    if (!autoResync) {
+      lastSequence = envelope.sequence;
+      return true;
+    }
+    // A failed request is answered with an error reply; the next gap asks again
+    requestResync().catch(() => {});
+    return false;
+  }
+
+  function requestResync(): Promise<ControlAck> {
+    resyncPending = true;
+    totals.resyncs++;
+    return send({ op: "resync", from: lastSequence ?? 0 }).finally(() => {
+      resyncPending = false;
+    });
+  }
+
+  function handleReply(text: string) {
+    const reply = JSON.parse(text) as { op: string; cmd?: string; error?: string };
+    // The next frame comes from another feed, whose numbers don't follow on
+    if (reply.op === "backpressure" || (reply.op === "ack" && (reply.cmd === "setCodec" || reply.cmd === "resume"))) lastSequence = null;
+    if (reply.op !== "ack" && reply.op !== "error") return;
+
+    const pending = pendingReplies.shift();
+    if (reply.op === "ack") pending?.resolve(reply as ControlAck);
+    else pending?.reject(new Error(reply.error ?? "control command failed"));
+  }
+
+  socket.onmessage = ({ data }) => {
+    // Control replies are JSON text, which a base64 data frame never starts with
+    if (typeof data === "string" && data.startsWith("{")) {
+      handleReply(data);
+      return;
+    }
+    // In arrival order, before the decode
+    if (!checkSequence(data)) return;
+
+    decodeQueue = decodeQueue.then(async () => {
+      try {
+        const message = await decodeFrame(data);
+        totals.messages++;
+        totals.wireBytes += message.stats.wireBytes;
+        totals.compressedBytes += message.stats.compressedBytes;
+        totals.decodedBytes += message.stats.decodedBytes;
+        totals.decodeMs += message.stats.decodeMs;
+        listeners.message.forEach(listener => listener(message));
+      } catch (error) {
+        totals.errors++;
+        const frame = typeof data === "string" ? data : toBytes(data);
+        listeners.error.forEach(listener => listener(error instanceof Error ? error : new Error(String(error)), frame));
+      }
+    });
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    socket.onopen = () => resolve();
+    socket.onerror = () => reject(new Error(`Cannot connect to ${httpUrl}/feed`));
+  });
+
+  socket.onerror = null;
+  socket.onclose = ({ code, reason }) => {
+    // Frames already received are handed out before the close
+    decodeQueue = decodeQueue.then(() => {
+      closed = { code, reason };
+      pendingReplies.splice(0).forEach(pending => pending.reject(new Error("feed closed")));
+      listeners.close.forEach(listener => listener({ code, reason }));
+    });
+  };
+
+  function send(command: object): Promise<ControlAck> {
+    if (closed || socket.readyState !== socket.OPEN) return Promise.reject(new Error("feed closed"));
+    return new Promise((resolve, reject) => {
+      pendingReplies.push({ resolve, reject });
+      socket.send(JSON.stringify(command));
+    });
+  }
+
+  function on(event: keyof typeof listeners, listener: (...args: never[]) => void): () => void {
+    const set = listeners[event] as Set<typeof listener>;
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  return {
+    on: on as FeedClient<Row>["on"],
+    setCodec(settings) {
+      try {
+        checkSettings(settings, decoders, deserializers);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+      return send({ op: "setCodec", ...feedFields(settings) });
+    },
+    pause: () => send({ op: "pause" }),
+    resume: () => send({ op: "resume" }),
+    resync: requestResync,
+    totals: () => ({ ...totals }),
+    close() {
+      socket.close(1000);
+    },
+    // Each iterator buffers the messages it hasn't taken yet. A normal close ends it, any other
+    // close (e.g. 1008 for rejected settings) fails it; decode failures only go to error listeners.
+    [Symbol.asyncIterator](): AsyncIterator<FeedMessage<Row>> {
+      const buffered: FeedMessage<Row>[] = [];
+      let waiting: { resolve(result: IteratorResult<FeedMessage<Row>>): void; reject(error: Error): void } | null = null;
+
+      const finish = () => {
+        if (!waiting || !closed) return;
+        const { code, reason } = closed;
+        if (code === 1000 || code === 1005) waiting.resolve({ done: true, value: undefined });
+        else waiting.reject(new Error(`Feed closed with code ${code}${reason ? `: ${reason}` : ""}`));
+        waiting = null;
+      };
+      const removeMessage = on("message", (message: FeedMessage<Row>) => {
+        if (waiting) {
+          waiting.resolve({ done: false, value: message });
+          waiting = null;
+        } else {
+          buffered.push(message);
+        }
+      });
+      const removeClose = on("close", finish);
+
+      return {
+        next() {
+          const message = buffered.shift();
+          if (message) return Promise.resolve({ done: false, value: message });
+          return new Promise((resolve, reject) => {
+            waiting = { resolve, reject };
+            finish();
+          });
+        },
+        // break out of for await: stop buffering
+        return() {
+          removeMessage();
+          removeClose();
+          buffered.length = 0;
+          return Promise.resolve({ done: true, value: undefined });
+        }
+      };
+    }
+  };
+}
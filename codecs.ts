@@ -0,0 +1,475 @@
+import zlib from "zlib";
+
+// --- Types for different compression methods ---
+// Name of a codec in the registry (CODECS)
+export type CompressionType = string;
+
+export interface CompressionResult {
+  compressed: Uint8Array;
+  originalSize: number;
+  compressedSize: number;
+  // Time spent in the encoder, excluding JSON serialization
+  compressMs: number;
+}
+
+// --- Codec registry ---
+// Every codec that /feed and the delta feed can publish with. Adding a codec means adding an
+// entry to CODECS and a decoder with the same name to the dashboard's `decoders`; the routes,
+// stat cards and chart entries are generated from GET /codecs.
+export interface CodecSettings {
+  level?: number;
+  window?: number;
+  // Brotli input block size as log2 (LGBLOCK); only swept by the benchmark, feeds use 20
+  block?: number;
+}
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  default?: number;
+}
+
+export interface Codec {
+  name: string;
+  label: string;
+  emoji: string;
+  color: string;
+  // Accepted compression levels; a codec without one takes no level
+  level?: SettingRange;
+  // Accepted window sizes as log2 of the window in bytes; without a default the encoder derives it from the level
+  window?: SettingRange;
+  available(): boolean;
+  compress(input: Uint8Array, settings: CodecSettings): Uint8Array;
+  decompress(input: Uint8Array): Uint8Array;
+}
+
+export const CODECS: Codec[] = [
+  {
+    name: "none",
+    label: "No Compression",
+    emoji: "📊",
+    color: "#ff6b6b",
+    available: () => true,
+    compress: (input) => input,
+    decompress: (input) => input
+  },
+  {
+    name: "gzip",
+    label: "Gzip",
+    emoji: "🗜️",
+    color: "#4ecdc4",
+    level: { min: 1, max: 9, default: 6 },
+    window: { min: 9, max: 15, default: 15 },
+    available: () => true,
+    compress: (input, settings) => zlib.gzipSync(input, { level: settings.level, windowBits: settings.window }),
+    decompress: (input) => zlib.gunzipSync(input)
+  },
+  {
+    name: "brotli",
+    label: "Brotli",
+    emoji: "⚡",
+    color: "#45b7d1",
+    level: { min: 0, max: 11, default: 10 },
+    window: { min: 10, max: 24, default: 15 },
+    available: () => typeof zlib.brotliCompressSync === "function",
+    // Optimized Brotli parameters for streaming (based on performance testing)
+    // Quality 10 (default): good compression at streaming speed
+    // Mode 0: Generic mode works best for mixed financial data
+    // Window 15 (default): Optimal window size for this dataset size
+    // Block 20: Good block size for streaming performance
+    compress: (input, settings) => zlib.brotliCompressSync(input, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: 0,     // generic mode (best for mixed data)
+        [zlib.constants.BROTLI_PARAM_QUALITY]: settings.level ?? 10,
+        [zlib.constants.BROTLI_PARAM_LGWIN]: settings.window ?? 15,
+        [zlib.constants.BROTLI_PARAM_LGBLOCK]: settings.block ?? 20, // block size optimization
+      },
+    }),
+    decompress: (input) => zlib.brotliDecompressSync(input)
+  },
+  {
+    name: "zstd",
+    label: "Zstd",
+    emoji: "🔥",
+    color: "#f39c12",
+    level: { min: 1, max: 22, default: 6 },
+    window: { min: 10, max: 27 },
+    available: () => typeof zlib.zstdCompressSync === "function",
+    // Zstd with level 6 by default (balanced speed/compression for streaming)
+    // Level 1-3: Fast, lower compression
+    // Level 6-9: Balanced (recommended for streaming)
+    // Level 10+: High compression, slower
+    // zlib's zstd (rather than Bun.zstdCompressSync) because it can also set the window log
+    compress: (input, settings) => {
+      const params: Record<number, number> = { [zlib.constants.ZSTD_c_compressionLevel]: settings.level ?? 6 };
+      if (settings.window !== undefined) {
+        params[zlib.constants.ZSTD_c_windowLog] = settings.window;
+      }
+      return zlib.zstdCompressSync(input, { params });
+    },
+    decompress: (input) => zlib.zstdDecompressSync(input)
+  },
+  {
+    name: "deflate-raw",
+    label: "Deflate (raw)",
+    emoji: "🧱",
+    color: "#16a085",
+    level: { min: 1, max: 9, default: 6 },
+    window: { min: 9, max: 15, default: 15 },
+    available: () => true,
+    // Gzip without the 18-byte header and trailer, decoded natively with DecompressionStream('deflate-raw')
+    compress: (input, settings) => zlib.deflateRawSync(input, { level: settings.level, windowBits: settings.window }),
+    decompress: (input) => zlib.inflateRawSync(input)
+  },
+  {
+    name: "lz4",
+    label: "LZ4",
+    emoji: "🚀",
+    color: "#e84393",
+    available: () => true,
+    compress: (input) => compressWithLz4(input),
+    decompress: (input) => decompressLz4(input)
+  },
+  {
+    name: "snappy",
+    label: "Snappy",
+    emoji: "🐊",
+    color: "#6c5ce7",
+    available: () => true,
+    compress: (input) => compressWithSnappy(input),
+    decompress: (input) => decompressSnappy(input)
+  }
+];
+
+// Registered codecs that work in this runtime, by name
+export const codecs = new Map(CODECS.filter(codec => codec.available()).map(codec => [codec.name, codec]));
+
+for (const codec of CODECS) {
+  if (!codecs.has(codec.name)) {
+    console.log(`⚠️ Codec ${codec.name} is not available in this runtime and is disabled`);
+  }
+}
+
+// Stable wire tag of a codec (its position in CODECS), carried in every frame envelope (see envelope.ts)
+export function codecTag(name: CompressionType): number {
+  return CODECS.findIndex(codec => codec.name === name);
+}
+
+export function defaultCodecSettings(codec: Codec): CodecSettings {
+  return { level: codec.level?.default, window: codec.window?.default };
+}
+
+// Replaces a codec's default level/window with configured values (already checked against its ranges)
+export function setCodecDefaults(name: CompressionType, settings: CodecSettings) {
+  const codec = codecs.get(name);
+  if (codec?.level && settings.level !== undefined) codec.level.default = settings.level;
+  if (codec?.window && settings.window !== undefined) codec.window.default = settings.window;
+}
+
+function checkSetting(codec: Codec, setting: "level" | "window", value: number | undefined): string | null {
+  const range = codec[setting];
+  if (value === undefined) return null;
+  if (!range) return `${codec.name} takes no ${setting}`;
+  if (!Number.isInteger(value) || value < range.min || value > range.max) {
+    return `${codec.name} ${setting} must be an integer from ${range.min} to ${range.max}`;
+  }
+  return null;
+}
+
+// Fills in defaults and checks the ranges; returns an error message for invalid settings
+export function resolveCodecSettings(name: CompressionType, level?: number, window?: number): CodecSettings | string {
+  const codec = codecs.get(name);
+  if (!codec) {
+    return `codec must be one of ${[...codecs.keys()].join(", ")}`;
+  }
+
+  const error = checkSetting(codec, "level", level) ?? checkSetting(codec, "window", window);
+  if (error) return error;
+
+  const defaults = defaultCodecSettings(codec);
+  return { level: level ?? defaults.level ?? codec.level?.min, window: window ?? defaults.window };
+}
+
+// Topic-safe name of a configuration, e.g. "brotli-l5-w18"
+export function feedConfigKey(codec: CompressionType, settings: CodecSettings): string {
+  let key = codec;
+  if (settings.level !== undefined) key += `-l${settings.level}`;
+  if (settings.window !== undefined) key += `-w${settings.window}`;
+  if (settings.block !== undefined) key += `-b${settings.block}`;
+  return key;
+}
+
+// --- Pure-JS LZ4 and Snappy codecs ---
+// Greedy LZ77 parse shared by both formats: a hash of the next 4 bytes finds the last position with
+// the same bytes, and the match is extended as far as allowed. Fast rather than tight, like the
+// reference encoders. The decoders below (and their copies in the dashboard) complete the pair, so
+// neither format needs a native library.
+const LZ_HASH_BITS = 16;
+
+interface LzParseLimits {
+  maxOffset: number;
+  // Matches may only start before this position...
+  matchStartLimit: number;
+  // ...and must end at or before this one
+  matchEndLimit: number;
+}
+
+function parseLzMatches(input: Uint8Array, limits: LzParseLimits, onMatch: (literalStart: number, matchStart: number, offset: number, length: number) => void): number {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  const table = new Int32Array(1 << LZ_HASH_BITS).fill(-1);
+  let anchor = 0;
+  let position = 0;
+
+  while (position < limits.matchStartLimit) {
+    const sequence = view.getUint32(position, true);
+    const hash = Math.imul(sequence, 2654435761) >>> (32 - LZ_HASH_BITS);
+    const candidate = table[hash] ?? -1;
+    table[hash] = position;
+
+    if (candidate < 0 || position - candidate > limits.maxOffset || view.getUint32(candidate, true) !== sequence) {
+      position++;
+      continue;
+    }
+
+    let length = 4;
+    while (position + length < limits.matchEndLimit && input[candidate + length] === input[position + length]) {
+      length++;
+    }
+    onMatch(anchor, position, position - candidate, length);
+    position += length;
+    anchor = position;
+  }
+
+  // Start of the trailing literals
+  return anchor;
+}
+
+// Writes 15/255-style length continuation bytes (LZ4 literal and match lengths)
+function writeLz4Length(output: Uint8Array, position: number, length: number): number {
+  let rest = length - 15;
+  while (rest >= 255) {
+    output[position++] = 255;
+    rest -= 255;
+  }
+  output[position++] = rest;
+  return position;
+}
+
+// LZ4 block format, prefixed with the uncompressed length as uint32 LE (as lz4.block's store_size does)
+function compressWithLz4(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(4 + input.length + Math.ceil(input.length / 255) + 16);
+  new DataView(output.buffer).setUint32(0, input.length, true);
+  let position = 4;
+
+  const writeSequence = (literalStart: number, literalLength: number, offset: number, matchLength: number) => {
+    const tokenPosition = position++;
+    let token = Math.min(literalLength, 15) << 4;
+    if (literalLength >= 15) position = writeLz4Length(output, position, literalLength);
+    output.set(input.subarray(literalStart, literalStart + literalLength), position);
+    position += literalLength;
+
+    // The last sequence is literals only
+    if (matchLength > 0) {
+      output[position++] = offset & 0xff;
+      output[position++] = offset >> 8;
+      token |= Math.min(matchLength - 4, 15);
+      if (matchLength - 4 >= 15) position = writeLz4Length(output, position, matchLength - 4);
+    }
+    output[tokenPosition] = token;
+  };
+
+  // The spec keeps the last 5 bytes as literals and starts no match in the last 12
+  const trailingStart = parseLzMatches(input, { maxOffset: 0xffff, matchStartLimit: input.length - 12, matchEndLimit: input.length - 5 },
+    (literalStart, matchStart, offset, length) => writeSequence(literalStart, matchStart - literalStart, offset, length));
+  writeSequence(trailingStart, input.length - trailingStart, 0, 0);
+
+  return output.subarray(0, position);
+}
+
+// Snappy raw format: varint uncompressed length, then literal and copy elements
+function compressWithSnappy(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(32 + input.length + Math.ceil(input.length / 6));
+  let position = 0;
+
+  for (let length = input.length; ; length >>>= 7) {
+    output[position++] = length >= 0x80 ? (length & 0x7f) | 0x80 : length;
+    if (length < 0x80) break;
+  }
+
+  const writeLiteral = (start: number, length: number) => {
+    if (length === 0) return;
+    const n = length - 1;
+    if (n < 60) {
+      output[position++] = n << 2;
+    } else if (n < 0x100) {
+      output[position++] = 60 << 2;
+      output[position++] = n;
+    } else if (n < 0x10000) {
+      output[position++] = 61 << 2;
+      output[position++] = n & 0xff;
+      output[position++] = n >> 8;
+    } else {
+      output[position++] = 62 << 2;
+      output[position++] = n & 0xff;
+      output[position++] = (n >> 8) & 0xff;
+      output[position++] = n >> 16;
+    }
+    output.set(input.subarray(start, start + length), position);
+    position += length;
+  };
+
+  // Copies with a 2-byte offset hold up to 64 bytes; short near copies fit the 1-byte-offset form
+  const writeCopy = (offset: number, length: number) => {
+    while (length > 0) {
+      const chunk = Math.min(length, 64);
+      if (chunk >= 4 && chunk < 12 && offset < 2048) {
+        output[position++] = 1 | ((chunk - 4) << 2) | ((offset >> 8) << 5);
+        output[position++] = offset & 0xff;
+      } else {
+        output[position++] = 2 | ((chunk - 1) << 2);
+        output[position++] = offset & 0xff;
+        output[position++] = offset >> 8;
+      }
+      length -= chunk;
+    }
+  };
+
+  const trailingStart = parseLzMatches(input, { maxOffset: 0xffff, matchStartLimit: input.length - 4, matchEndLimit: input.length },
+    (literalStart, matchStart, offset, length) => {
+      writeLiteral(literalStart, matchStart - literalStart);
+      writeCopy(offset, length);
+    });
+  writeLiteral(trailingStart, input.length - trailingStart);
+
+  return output.subarray(0, position);
+}
+
+// Reads 15/255-style length continuation bytes; returns the length and the next input position
+function readLz4Length(input: Uint8Array, position: number, length: number): [number, number] {
+  let byte: number;
+  do {
+    byte = input[position++] ?? 0;
+    length += byte;
+  } while (byte === 255);
+  return [length, position];
+}
+
+function decompressLz4(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(new DataView(input.buffer, input.byteOffset, input.byteLength).getUint32(0, true));
+  let inputPosition = 4;
+  let position = 0;
+
+  while (inputPosition < input.length) {
+    const token = input[inputPosition++] ?? 0;
+    let literalLength = token >> 4;
+    if (literalLength === 15) [literalLength, inputPosition] = readLz4Length(input, inputPosition, literalLength);
+    output.set(input.subarray(inputPosition, inputPosition + literalLength), position);
+    inputPosition += literalLength;
+    position += literalLength;
+    if (inputPosition >= input.length) break;
+
+    const offset = (input[inputPosition] ?? 0) | ((input[inputPosition + 1] ?? 0) << 8);
+    inputPosition += 2;
+    let matchLength = token & 15;
+    if (matchLength === 15) [matchLength, inputPosition] = readLz4Length(input, inputPosition, matchLength);
+    matchLength += 4;
+    // Byte by byte: a match may overlap the bytes it produces
+    for (let i = 0; i < matchLength; i++, position++) output[position] = output[position - offset] ?? 0;
+  }
+
+  return output;
+}
+
+function decompressSnappy(input: Uint8Array): Uint8Array {
+  let inputPosition = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    const byte = input[inputPosition++] ?? 0;
+    length |= (byte & 0x7f) << shift;
+    if (byte < 0x80) break;
+  }
+
+  const output = new Uint8Array(length);
+  const byteAt = (offset: number) => input[inputPosition + offset] ?? 0;
+  let position = 0;
+
+  while (inputPosition < input.length) {
+    const tag = input[inputPosition++] ?? 0;
+    let copyLength: number;
+    let offset: number;
+
+    switch (tag & 3) {
+      case 0: {
+        let literalLength = tag >> 2;
+        if (literalLength >= 60) {
+          const lengthBytes = literalLength - 59;
+          literalLength = 0;
+          for (let i = 0; i < lengthBytes; i++) literalLength |= byteAt(i) << (8 * i);
+          inputPosition += lengthBytes;
+        }
+        literalLength += 1;
+        output.set(input.subarray(inputPosition, inputPosition + literalLength), position);
+        inputPosition += literalLength;
+        position += literalLength;
+        continue;
+      }
+      case 1:
+        copyLength = ((tag >> 2) & 7) + 4;
+        offset = ((tag >> 5) << 8) | byteAt(0);
+        inputPosition += 1;
+        break;
+      case 2:
+        copyLength = (tag >> 2) + 1;
+        offset = byteAt(0) | (byteAt(1) << 8);
+        inputPosition += 2;
+        break;
+      default:
+        copyLength = (tag >> 2) + 1;
+        offset = (byteAt(0) | (byteAt(1) << 8) | (byteAt(2) << 16) | (byteAt(3) << 24)) >>> 0;
+        inputPosition += 4;
+    }
+
+    for (let i = 0; i < copyLength; i++, position++) output[position] = output[position - offset] ?? 0;
+  }
+
+  return output;
+}
+
+// --- Helper functions for compression ---
+export function noCompression(data: unknown): CompressionResult {
+  const jsonString = JSON.stringify(data);
+  const originalBuffer = Buffer.from(jsonString);
+
+  return {
+    compressed: originalBuffer,
+    originalSize: originalBuffer.length,
+    compressedSize: originalBuffer.length,
+    compressMs: 0
+  };
+}
+
+// Compresses already serialized JSON with a registered codec (default settings unless given)
+export function compressBytes(type: CompressionType, input: Uint8Array, settings?: CodecSettings): CompressionResult | null {
+  const codec = codecs.get(type);
+  if (!codec) return null;
+
+  try {
+    const startTime = performance.now();
+    const compressedBuffer = codec.compress(input, settings ?? defaultCodecSettings(codec));
+    const compressMs = performance.now() - startTime;
+
+    return {
+      compressed: compressedBuffer,
+      originalSize: input.length,
+      compressedSize: compressedBuffer.length,
+      compressMs
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Compresses the JSON of `data` with a registered codec (default settings unless given)
+export function compressAs(type: CompressionType, data: unknown, settings?: CodecSettings): CompressionResult | null {
+  return compressBytes(type, Buffer.from(JSON.stringify(data)), settings);
+}
@@ -0,0 +1,112 @@
+import type { CodecSettings, CompressionResult, CompressionType } from "./codecs";
+
+// --- Compression worker pool ---
+// Runs codec compressions on Bun workers so a slow encoder (high Brotli quality, large datasets)
+// never blocks WebSocket I/O. Jobs run in the order they were submitted, one per worker at a time.
+
+export interface CompressionRequest {
+  id: number;
+  codec: CompressionType;
+  settings: CodecSettings;
+  input: Uint8Array;
+}
+
+export interface CompressionResponse {
+  id: number;
+  result: CompressionResult | null;
+}
+
+interface PoolJob {
+  request: CompressionRequest;
+  resolve(result: CompressionResult | null): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+}
+
+export interface CompressionPool {
+  // Resolves to null if the codec failed or the job was cancelled
+  compress(codec: CompressionType, settings: CodecSettings, input: Uint8Array): Promise<CompressionResult | null>;
+  // Jobs queued or running
+  pending(): number;
+  // Drops every queued job and restarts the workers busy with one, so the CPU is free at once
+  cancelAll(): number;
+}
+
+// Copies serialized data into shared memory once, so posting it to the workers does not copy it again
+export function toSharedBytes(bytes: Uint8Array): Uint8Array {
+  const shared = new Uint8Array(new SharedArrayBuffer(bytes.length));
+  shared.set(bytes);
+  return shared;
+}
+
+export function createCompressionPool(size: number): CompressionPool {
+  const queue: PoolJob[] = [];
+  const workers: PoolWorker[] = [];
+  let nextJobId = 1;
+
+  function spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(new URL("./compression-worker.ts", import.meta.url)), job: null };
+
+    entry.worker.onmessage = (event: MessageEvent<CompressionResponse>) => {
+      const job = entry.job;
+      if (!job || job.request.id !== event.data.id) return;
+      entry.job = null;
+      job.resolve(event.data.result);
+      dispatch();
+    };
+
+    entry.worker.onerror = (error) => {
+      console.error("❌ Compression worker error:", error.message);
+      replace(entry);
+      dispatch();
+    };
+
+    return entry;
+  }
+
+  // Terminates a worker (and fails its job) and starts a fresh one in its place
+  function replace(entry: PoolWorker) {
+    entry.worker.terminate();
+    entry.job?.resolve(null);
+    workers[workers.indexOf(entry)] = spawn();
+  }
+
+  function dispatch() {
+    for (const entry of workers) {
+      if (entry.job) continue;
+      const job = queue.shift();
+      if (!job) return;
+
+      entry.job = job;
+      entry.worker.postMessage(job.request);
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    workers.push(spawn());
+  }
+
+  return {
+    compress(codec, settings, input) {
+      return new Promise((resolve) => {
+        queue.push({ request: { id: nextJobId++, codec, settings, input }, resolve });
+        dispatch();
+      });
+    },
+    pending() {
+      return queue.length + workers.filter(entry => entry.job).length;
+    },
+    cancelAll() {
+      const cancelled = queue.splice(0);
+      for (const job of cancelled) job.resolve(null);
+
+      const busy = workers.filter(entry => entry.job);
+      for (const entry of busy) replace(entry);
+
+      return cancelled.length + busy.length;
+    }
+  };
+}
@@ -0,0 +1,13 @@
+import { compressBytes } from "./codecs";
+import type { CompressionRequest, CompressionResponse } from "./compression-pool";
+
+// --- Compression worker ---
+// Compresses one serialized tick per request with a codec from the registry. The input is a view
+// on a SharedArrayBuffer, so every worker reads the same bytes without a copy.
+declare var self: Worker;
+
+self.onmessage = (event: MessageEvent<CompressionRequest>) => {
+  const { id, codec, settings, input } = event.data;
+  const response: CompressionResponse = { id, result: compressBytes(codec, input, settings) };
+  self.postMessage(response);
+};
@@ -0,0 +1,334 @@
+import { parseArgs } from "util";
+import { codecs, type CodecSettings, type CompressionType } from "./codecs";
+import { REPLAY_FORMATS, type ReplayFormat } from "./sources";
+
+// --- Server configuration ---
+// Every setting can come from a JSON or TOML config file (--config / CONFIG_FILE), an environment
+// variable or a command-line flag; later sources win: default < file < env < flag. A setting's flag
+// and variable are derived from its path in the file: "replay.batchSize" is --replay-batch-size and
+// REPLAY_BATCH_SIZE. All invalid values are reported together before the server exits.
+
+export type TickOverrunPolicy = "skip" | "queue" | "cancel";
+
+export const TICK_OVERRUN_POLICIES: TickOverrunPolicy[] = ["skip", "queue", "cancel"];
+
+// What the broadcaster does with a subscriber that has more than backpressure.limitBytes queued
+// (see "Slow consumers" in index.ts)
+export type BackpressurePolicy = "none" | "drop-stale" | "downgrade" | "disconnect";
+
+export const BACKPRESSURE_POLICIES: BackpressurePolicy[] = ["none", "drop-stale", "downgrade", "disconnect"];
+
+export type DataSourceKind = "generator" | ReplayFormat;
+
+// Codecs with a streaming context feed (/feed/<codec>-stream)
+export type StreamingCodec = "gzip" | "brotli" | "zstd";
+
+export const STREAMING_CODECS: StreamingCodec[] = ["gzip", "brotli", "zstd"];
+
+export interface ServerConfig {
+  port: number;
+  // Base URL printed at startup and used by the dashboard for its WebSocket connections
+  publicUrl: string;
+  dataset: { size: number; intervalMs: number };
+  dataSource: DataSourceKind;
+  replay: { file?: string; speed: number; loop: boolean; batchSize?: number; batchWindowMs: number; timestampField: string; textColumns: string[] };
+  compression: { workers: number };
+  tick: { overrunPolicy: TickOverrunPolicy };
+  backpressure: { policy: BackpressurePolicy; limitBytes: number; downgradeCodec: CompressionType };
+  // Frames kept per feed for resync requests (see "Sequence numbers and resync" in index.ts)
+  resync: { historyFrames: number };
+  // How the dashboard loads its Brotli and Zstd WASM decoders (see decoders.ts)
+  decoders: { integrity: boolean; cdnFallback: boolean };
+  // Default level/window of each registry codec on /feed (and the delta and baseline compressions)
+  codecs: Record<CompressionType, CodecSettings>;
+  // Level/window of the long-lived compressors behind the streaming context feeds
+  streaming: Record<StreamingCodec, CodecSettings>;
+}
+
+export type ConfigOrigin = "default" | "file" | "env" | "flag";
+
+export interface ResolvedSetting {
+  path: string;
+  value: unknown;
+  origin: ConfigOrigin;
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  // Every setting with its effective value and where it came from, in declaration order
+  settings: ResolvedSetting[];
+}
+
+// Parses a value from any source (strings from env and flags, typed values from files);
+// returns an error message for invalid values
+type Parser = (value: unknown) => { value: unknown } | string;
+
+interface Setting {
+  path: string;
+  description: string;
+  parse: Parser;
+  default?: unknown;
+}
+
+// --- Value parsers ---
+function describe(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function integer(min: number, max = Number.MAX_SAFE_INTEGER): Parser {
+  return (value) => {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    return typeof number === "number" && Number.isInteger(number) && number >= min && number <= max
+      ? { value: number }
+      : max === Number.MAX_SAFE_INTEGER ? `must be an integer of at least ${min}` : `must be an integer from ${min} to ${max}`;
+  };
+}
+
+const positiveNumber: Parser = (value) => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0 ? { value: number } : "must be a positive number";
+};
+
+const boolean: Parser = (value) => {
+  if (value === true || value === "true" || value === "1") return { value: true };
+  if (value === false || value === "false" || value === "0") return { value: false };
+  return "must be true or false";
+};
+
+const text: Parser = (value) => typeof value === "string" && value !== "" ? { value } : "must be a non-empty string";
+
+// Comma-separated from env and flags, an array of strings in config files
+const textList: Parser = (value) => {
+  const list = typeof value === "string" ? value.split(",").map(item => item.trim()).filter(Boolean) : value;
+  return Array.isArray(list) && list.every(item => typeof item === "string" && item !== "") ? { value: list } : "must be a comma-separated list of names";
+};
+
+function oneOf(choices: readonly string[]): Parser {
+  return (value) => typeof value === "string" && choices.includes(value) ? { value } : `must be one of ${choices.join(", ")}`;
+}
+
+const httpUrl: Parser = (value) => {
+  if (typeof value !== "string" || !URL.canParse(value)) return "must be an http:// or https:// URL";
+  const url = new URL(value);
+  return url.protocol === "http:" || url.protocol === "https:" ? { value: url.href.replace(/\/$/, "") } : "must be an http:// or https:// URL";
+};
+
+// --- Settings ---
+const STREAMING_DEFAULTS: Record<StreamingCodec, CodecSettings> = {
+  gzip: { level: 6 },
+  // 4MB window: large enough to reach back into previous messages
+  brotli: { level: 10, window: 22 },
+  zstd: { level: 6 }
+};
+
+function codecSettings(prefix: string, name: CompressionType, defaults: (setting: "level" | "window") => number | undefined): Setting[] {
+  const codec = codecs.get(name);
+  if (!codec) return [];
+
+  return (["level", "window"] as const).flatMap((setting) => {
+    const range = codec[setting];
+    return range ? [{
+      path: `${prefix}.${name}.${setting}`,
+      description: `${codec.label} ${setting}${setting === "window" ? " (log2 bytes)" : ""}`,
+      parse: integer(range.min, range.max),
+      default: defaults(setting)
+    }] : [];
+  });
+}
+
+const SETTINGS: Setting[] = [
+  { path: "port", description: "HTTP and WebSocket port", parse: integer(1, 65535), default: 3001 },
+  { path: "publicUrl", description: "Base URL of the server as clients reach it (default http://localhost:<port>)", parse: httpUrl },
+  { path: "dataset.size", description: "Generated items per message", parse: integer(1), default: 1000 },
+  { path: "dataset.intervalMs", description: "Milliseconds between generated messages", parse: positiveNumber, default: 2000 },
+  { path: "dataSource", description: "Where messages come from", parse: oneOf(["generator", ...REPLAY_FORMATS]), default: "generator" },
+  { path: "replay.file", description: "Capture to replay (ndjson and csv sources)", parse: text },
+  { path: "replay.speed", description: "Playback speed relative to the recorded time", parse: positiveNumber, default: 1 },
+  { path: "replay.loop", description: "Start over at the end of the capture", parse: boolean, default: true },
+  { path: "replay.batchSize", description: "Records per message (instead of time windows)", parse: integer(1) },
+  { path: "replay.batchWindowMs", description: "Recorded milliseconds per message", parse: positiveNumber, default: 2000 },
+  { path: "replay.timestampField", description: "Record field holding the time", parse: text, default: "ts" },
+  { path: "replay.textColumns", description: "CSV columns kept as strings even when every cell is a number", parse: textList, default: [] },
+  { path: "compression.workers", description: "Compression worker threads (0 compresses inline)", parse: integer(0), default: 0 },
+  { path: "tick.overrunPolicy", description: "What a tick does while the previous one is still compressing", parse: oneOf(TICK_OVERRUN_POLICIES), default: "skip" },
+  { path: "backpressure.policy", description: "What happens to a subscriber that doesn't keep up", parse: oneOf(BACKPRESSURE_POLICIES), default: "drop-stale" },
+  { path: "backpressure.limitBytes", description: "Bytes queued for a subscriber before it counts as slow", parse: integer(1), default: 1024 * 1024 },
+  { path: "backpressure.downgradeCodec", description: "Codec a slow /feed session is moved to by the downgrade policy", parse: oneOf([...codecs.keys()]), default: "brotli" },
+  { path: "resync.historyFrames", description: "Frames kept per feed to replay to clients that missed some", parse: integer(1), default: 10 },
+  { path: "decoders.integrity", description: "Check the dashboard's WASM decoders and Chart.js against hashes of the installed packages", parse: boolean, default: true },
+  { path: "decoders.cdnFallback", description: "Load the WASM decoders and Chart.js from a CDN when the server's copies fail", parse: boolean, default: false },
+  ...[...codecs.keys()].flatMap(name => codecSettings("codecs", name, setting => codecs.get(name)?.[setting]?.default)),
+  ...STREAMING_CODECS.flatMap(name => codecSettings("streaming", name, setting => STREAMING_DEFAULTS[name][setting]))
+];
+
+function flagName(path: string): string {
+  return path.replace(/\./g, "-").replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+function envName(path: string): string {
+  return flagName(path).replace(/-/g, "_").toUpperCase();
+}
+
+// --- Config file ---
+// Nested tables are flattened to setting paths: {"replay": {"speed": 2}} sets "replay.speed"
+function flattenFile(value: unknown, prefix: string, into: Map<string, unknown>) {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      flattenFile(entry, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else {
+    into.set(prefix, value);
+  }
+}
+
+async function readConfigFile(path: string): Promise<Map<string, unknown>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`config file ${path} does not exist`);
+
+  const format = path.endsWith(".json") ? "JSON" : path.endsWith(".toml") ? "TOML" : null;
+  if (!format) throw new Error(`config file ${path} must end in .json or .toml`);
+
+  const source = await file.text();
+  let parsed: unknown;
+  try {
+    parsed = format === "JSON" ? JSON.parse(source) : Bun.TOML.parse(source);
+  } catch (error) {
+    throw new Error(`config file ${path} is not valid ${format}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const values = new Map<string, unknown>();
+  flattenFile(parsed, "", values);
+  return values;
+}
+
+// --- Loading ---
+export function configUsage(): string {
+  const rows = SETTINGS.map(setting => {
+    const fallback = setting.default === undefined ? "" : ` (default ${describe(setting.default)})`;
+    return `  --${flagName(setting.path).padEnd(28)} ${envName(setting.path).padEnd(30)} ${setting.description}${fallback}`;
+  });
+  return [
+    "Usage: bun run index.ts [--config server.toml] [--<setting> <value> ...]",
+    "",
+    "  --config                       CONFIG_FILE                    JSON or TOML file with any of the settings below",
+    ...rows
+  ].join("\n");
+}
+
+function fail(errors: string[]): never {
+  for (const error of errors) console.error(`❌ ${error}`);
+  console.error("Run with --help to list the settings");
+  process.exit(1);
+}
+
+export async function loadConfig(args: string[], env: Record<string, string | undefined>): Promise<LoadedConfig> {
+  let flags: Record<string, string | boolean | undefined>;
+  try {
+    ({ values: flags } = parseArgs({
+      args,
+      options: {
+        config: { type: "string" },
+        help: { type: "boolean" },
+        ...Object.fromEntries(SETTINGS.map(setting => [flagName(setting.path), { type: "string" as const }]))
+      }
+    }));
+  } catch (error) {
+    fail([error instanceof Error ? error.message : String(error)]);
+  }
+
+  if (flags.help) {
+    console.log(configUsage());
+    process.exit(0);
+  }
+
+  const errors: string[] = [];
+  const configPath = typeof flags.config === "string" ? flags.config : env.CONFIG_FILE;
+  let fileValues = new Map<string, unknown>();
+  if (configPath) {
+    try {
+      fileValues = await readConfigFile(configPath);
+    } catch (error) {
+      fail([error instanceof Error ? error.message : String(error)]);
+    }
+    for (const path of fileValues.keys()) {
+      if (!SETTINGS.some(setting => setting.path === path)) errors.push(`${configPath}: unknown setting "${path}"`);
+    }
+  }
+
+  const settings: ResolvedSetting[] = [];
+  for (const setting of SETTINGS) {
+    const flag = flags[flagName(setting.path)];
+    const variable = env[envName(setting.path)];
+    const [raw, origin, label]: [unknown, ConfigOrigin, string] =
+      flag !== undefined ? [flag, "flag", `--${flagName(setting.path)}`] :
+      variable !== undefined ? [variable, "env", envName(setting.path)] :
+      fileValues.has(setting.path) ? [fileValues.get(setting.path), "file", `${setting.path} in ${configPath}`] :
+      [setting.default, "default", ""];
+
+    if (raw === undefined) {
+      settings.push({ path: setting.path, value: undefined, origin });
+      continue;
+    }
+    const parsed = origin === "default" ? { value: raw } : setting.parse(raw);
+    if (typeof parsed === "string") {
+      errors.push(`${label} ${parsed}, got ${describe(raw)}`);
+      continue;
+    }
+    settings.push({ path: setting.path, value: parsed.value, origin });
+  }
+
+  const value = <T>(path: string) => settings.find(setting => setting.path === path)?.value as T;
+  const codecSettingsAt = (prefix: string, name: string): CodecSettings => ({
+    level: value<number | undefined>(`${prefix}.${name}.level`),
+    window: value<number | undefined>(`${prefix}.${name}.window`)
+  });
+
+  const port = value<number>("port");
+  const config: ServerConfig = {
+    port,
+    publicUrl: value<string | undefined>("publicUrl") ?? `http://localhost:${port}`,
+    dataset: { size: value("dataset.size"), intervalMs: value("dataset.intervalMs") },
+    dataSource: value("dataSource"),
+    replay: {
+      file: value("replay.file"),
+      speed: value("replay.speed"),
+      loop: value("replay.loop"),
+      batchSize: value("replay.batchSize"),
+      batchWindowMs: value("replay.batchWindowMs"),
+      timestampField: value("replay.timestampField"),
+      textColumns: value("replay.textColumns")
+    },
+    compression: { workers: value("compression.workers") },
+    tick: { overrunPolicy: value("tick.overrunPolicy") },
+    backpressure: {
+      policy: value("backpressure.policy"),
+      limitBytes: value("backpressure.limitBytes"),
+      downgradeCodec: value("backpressure.downgradeCodec")
+    },
+    resync: { historyFrames: value("resync.historyFrames") },
+    decoders: { integrity: value("decoders.integrity"), cdnFallback: value("decoders.cdnFallback") },
+    codecs: Object.fromEntries([...codecs.keys()].map(name => [name, codecSettingsAt("codecs", name)])),
+    streaming: Object.fromEntries(STREAMING_CODECS.map(name => [name, codecSettingsAt("streaming", name)])) as Record<StreamingCodec, CodecSettings>
+  };
+
+  // Settings that only make sense together
+  if (config.dataSource !== "generator" && !config.replay.file) {
+    errors.push(`dataSource ${config.dataSource} needs replay.file (--replay-file / REPLAY_FILE)`);
+  }
+  const windowOrigin = settings.find(setting => setting.path === "replay.batchWindowMs")?.origin;
+  if (config.replay.batchSize !== undefined && windowOrigin !== "default") {
+    errors.push("set replay.batchSize or replay.batchWindowMs, not both");
+  }
+
+  if (errors.length > 0) fail(errors);
+  return { config, settings };
+}
+
+// One line per setting for the startup log, e.g. "  port = 3002 (flag)"
+export function formatConfig(settings: ResolvedSetting[]): string {
+  const width = Math.max(...settings.map(setting => setting.path.length));
+  return settings
+    .filter(setting => setting.value !== undefined)
+    .map(setting => `  ${setting.path.padEnd(width)} = ${describe(setting.value)}${setting.origin === "default" ? "" : ` (${setting.origin})`}`)
+    .join("\n");
+}
@@ -0,0 +1,73 @@
+import type { CompressionType } from "./codecs";
+
+export interface PriceData {
+  ts: number;
+  price: string;
+  compression: CompressionType;
+  originalSize?: number;
+  compressedSize?: number;
+}
+
+// --- Generate large dataset for better compression ---
+export function generateLargePriceDataset(count: number): PriceData[] {
+  console.log(`🏗️ Generating ${count} PriceData items for better compression demonstration...`);
+
+  const symbols = ["BTC/USD", "ETH/USD", "ADA/USD", "DOT/USD", "SOL/USD", "AVAX/USD", "MATIC/USD", "LINK/USD"];
+  const exchanges = ["binance", "coinbase", "kraken", "ftx", "huobi", "okex", "bybit", "kucoin"];
+  const markets = ["crypto", "forex", "stocks", "commodities"];
+
+  const dataset: PriceData[] = [];
+  const baseTime = Date.now();
+
+  for (let i = 0; i < count; i++) {
+    const symbol = symbols[i % symbols.length] || "BTC/USD";
+    const exchange = exchanges[i % exchanges.length] || "binance";
+    const market = markets[i % markets.length] || "crypto";
+
+    // Create realistic price patterns based on symbol
+    const basePrice = symbol.includes("BTC") ? 45000 + Math.sin(i / 100) * 5000 :
+      symbol.includes("ETH") ? 3000 + Math.sin(i / 80) * 500 :
+        symbol.includes("SOL") ? 100 + Math.sin(i / 60) * 20 :
+          50 + Math.sin(i / 40) * 10;
+
+    const noise = (Math.random() - 0.5) * (basePrice * 0.02); // 2% noise
+    const price = (basePrice + noise).toFixed(2);
+
+    const priceNum = parseFloat(price);
+    const changeAmount = ((Math.random() - 0.5) * priceNum * 0.05).toFixed(2); // 5% max change
+    const changePercent = priceNum > 0 ? ((parseFloat(changeAmount) / priceNum) * 100).toFixed(2) : "0.00";
+
+    const priceData: PriceData = {
+      ts: baseTime + (i * 1000), // 1 second intervals
+      price: price,
+      compression: "none", // Will be set by compression functions
+      originalSize: 0, // Will be calculated
+      compressedSize: 0 // Will be calculated
+    };
+
+    // Add extra market data for more realistic compression scenarios
+    const extraData = {
+      id: i + 1,
+      symbol: symbol,
+      volume: Math.floor(Math.random() * 10000) + 1000,
+      change: changeAmount,
+      changePercent: changePercent,
+      high: (priceNum + Math.random() * priceNum * 0.03).toFixed(2),
+      low: (priceNum - Math.random() * priceNum * 0.03).toFixed(2),
+      market: market,
+      exchange: exchange,
+      bid: (priceNum - Math.random() * priceNum * 0.001).toFixed(2),
+      ask: (priceNum + Math.random() * priceNum * 0.001).toFixed(2),
+      timestamp: baseTime + (i * 1000),
+      trades_count: Math.floor(Math.random() * 100) + 10,
+      vwap: (priceNum + (Math.random() - 0.5) * priceNum * 0.001).toFixed(2)
+    };
+
+    // Merge extra data into the price data for more realistic compression
+    const fullPriceData = Object.assign(priceData, extraData);
+    dataset.push(fullPriceData);
+  }
+
+  console.log(`✅ Generated ${count} items. Sample item size: ~${JSON.stringify(dataset[0]).length} bytes`);
+  return dataset;
+}
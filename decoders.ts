@@ -0,0 +1,255 @@
+import { join } from "path";
+
+// --- WASM decoders ---
+// The dashboard decompresses Brotli and Zstd with WebAssembly builds of both libraries. They are npm
+// dependencies, served by this server from node_modules under /vendor/<package>@<version>/ so the
+// dashboard works offline and the first measurements don't wait on a CDN. The version in the path
+// means a file never changes under its URL, so browsers may cache it for good.
+//
+// With integrity checks on, the page carries SHA-384 hashes of the installed files: the WASM
+// binaries are fetched with fetch()'s integrity option and the JavaScript modules are listed in the
+// import map's "integrity" table (browsers without support for it skip that part). A CDN is only
+// tried when the server's copy fails and the CDN fallback is configured; the CDN binary must still
+// match the local hash.
+//
+// Chart.js is vendored the same way: the dashboard loads the UMD build with a <script> tag carrying
+// its integrity hash, and from the CDN only under the same fallback setting.
+
+export type DecoderCodec = "brotli" | "zstd";
+
+export interface DecoderOptions {
+  integrity: boolean;
+  cdnFallback: boolean;
+}
+
+// An npm package whose files matching the pattern in the directory are served
+interface VendorSource {
+  packageName: string;
+  directory: string;
+  pattern: string;
+}
+
+interface DecoderPackage extends VendorSource {
+  codec: DecoderCodec;
+  // The module and binary in the directory the dashboard loads
+  module: string;
+  wasm: string;
+  cdn(version: string): { module: string; wasm: string };
+}
+
+// Where the dashboard loads a decoder from; integrity is an SRI string ("sha384-…") or null
+export interface DecoderLocation {
+  module: string;
+  wasm: string;
+  integrity: string | null;
+}
+
+// Where the dashboard loads Chart.js from
+export interface ScriptLocation {
+  src: string;
+  integrity: string | null;
+}
+
+// Handed to the dashboard, one entry per codec
+export interface DecoderAssets {
+  // Null when the package is not installed
+  local: DecoderLocation | null;
+  // Null unless the CDN fallback is configured
+  cdn: DecoderLocation | null;
+}
+
+interface VendoredFile {
+  path: string;
+  contentType: string;
+}
+
+export interface ChartAssets {
+  // Null when the package is not installed
+  local: ScriptLocation | null;
+  // Null unless the CDN fallback is configured
+  cdn: ScriptLocation | null;
+}
+
+interface VendoredPackage {
+  packageName: string;
+  version: string;
+  // Path under /vendor, e.g. "brotli-wasm@3.0.1"
+  route: string;
+  // Servable files by their path under the route
+  files: Map<string, VendoredFile>;
+  // SRI hashes of the servable files by URL
+  hashes: Map<string, string>;
+}
+
+const DECODER_PACKAGES: DecoderPackage[] = [
+  {
+    codec: "brotli",
+    packageName: "brotli-wasm",
+    // The wasm-bindgen module itself: the package's index.web.js starts fetching the binary as soon
+    // as it is imported, before the dashboard can hand it a checked copy
+    directory: "pkg.web",
+    pattern: "**/*.{js,wasm}",
+    module: "brotli_wasm.js",
+    wasm: "brotli_wasm_bg.wasm",
+    cdn: version => ({
+      module: `https://cdn.jsdelivr.net/npm/brotli-wasm@${version}/pkg.web/brotli_wasm.js`,
+      wasm: `https://cdn.jsdelivr.net/npm/brotli-wasm@${version}/pkg.web/brotli_wasm_bg.wasm`
+    })
+  },
+  {
+    codec: "zstd",
+    packageName: "@bokuweb/zstd-wasm",
+    directory: "dist/web",
+    pattern: "**/*.{js,wasm}",
+    module: "index.web.js",
+    wasm: "zstd.wasm",
+    // The web build imports "./module" without an extension, which plain CDN files can't resolve;
+    // jsDelivr's +esm build bundles the modules into one
+    cdn: version => ({
+      module: `https://cdn.jsdelivr.net/npm/@bokuweb/zstd-wasm@${version}/dist/web/index.web.js/+esm`,
+      wasm: `https://cdn.jsdelivr.net/npm/@bokuweb/zstd-wasm@${version}/dist/web/zstd.wasm`
+    })
+  }
+];
+
+// Only the minified UMD build, which defines the Chart global for a classic script
+const CHART_PACKAGE: VendorSource & { script: string } = {
+  packageName: "chart.js",
+  directory: "dist",
+  pattern: "chart.umd.min.js",
+  script: "chart.umd.min.js"
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript; charset=utf-8",
+  ".wasm": "application/wasm"
+};
+
+const VENDOR_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+function sriHash(bytes: Uint8Array): string {
+  return `sha384-${new Bun.CryptoHasher("sha384").update(bytes).digest("base64")}`;
+}
+
+// Required are the files the dashboard loads, which must be among the served ones
+async function vendorPackage(source: VendorSource, version: string, required: string[]): Promise<VendoredPackage> {
+  const packageRoot = join(import.meta.dir, "node_modules", source.packageName);
+  const packageJson = Bun.file(join(packageRoot, "package.json"));
+  if (!(await packageJson.exists())) throw new Error(`${source.packageName} is not installed (run bun install)`);
+
+  const installed = (await packageJson.json() as { version: string }).version;
+  if (installed !== version) throw new Error(`${source.packageName}@${installed} is installed, package.json pins ${version} (run bun install)`);
+
+  const route = `${source.packageName.replace(/^@[^/]+\//, "")}@${version}`;
+  const root = join(packageRoot, source.directory);
+
+  const files = new Map<string, VendoredFile>();
+  const hashes = new Map<string, string>();
+  for await (const name of new Bun.Glob(source.pattern).scan(root)) {
+    const path = join(root, name);
+    const extension = name.slice(name.lastIndexOf("."));
+    const hash = sriHash(await Bun.file(path).bytes());
+    const file = { path, contentType: CONTENT_TYPES[extension] ?? "application/octet-stream" };
+
+    // Relative imports without an extension ("./module") are served as the .js file, under both URLs
+    const names = extension === ".js" ? [name, name.slice(0, -3)] : [name];
+    for (const served of names) {
+      files.set(served, file);
+      hashes.set(`/vendor/${route}/${served}`, hash);
+    }
+  }
+
+  for (const name of required) {
+    if (!files.has(name)) throw new Error(`${source.packageName}@${version} has no ${source.directory}/${name}`);
+  }
+  return { packageName: source.packageName, version, route, files, hashes };
+}
+
+// --- Loading ---
+export interface Decoders {
+  packages: VendoredPackage[];
+  assets: Record<DecoderCodec, DecoderAssets>;
+  chart: ChartAssets;
+  // SRI hashes of every served JavaScript module for the import map; empty without integrity checks
+  moduleIntegrity: Record<string, string>;
+  // Startup log line
+  description: string;
+}
+
+// A package that fails to load only disables its local copy; the dashboard then uses the CDN
+// (if configured) or runs without that decoder
+export async function loadDecoders(options: DecoderOptions): Promise<Decoders> {
+  // Exact versions from package.json, so CDN URLs name the same files as node_modules
+  const { dependencies } = await Bun.file(join(import.meta.dir, "package.json")).json() as { dependencies: Record<string, string> };
+  const packages: VendoredPackage[] = [];
+  const assets = {} as Record<DecoderCodec, DecoderAssets>;
+  const moduleIntegrity: Record<string, string> = {};
+
+  for (const decoder of DECODER_PACKAGES) {
+    const version = dependencies[decoder.packageName];
+    if (!version) throw new Error(`package.json has no ${decoder.packageName} dependency`);
+
+    let vendored: VendoredPackage | null = null;
+    try {
+      vendored = await vendorPackage(decoder, version, [decoder.module, decoder.wasm]);
+      packages.push(vendored);
+    } catch (error) {
+      console.warn(`⚠️ Cannot serve the ${decoder.codec} WASM decoder: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const wasmHash = options.integrity && vendored ? vendored.hashes.get(`/vendor/${vendored.route}/${decoder.wasm}`) ?? null : null;
+    const local: DecoderLocation | null = vendored && {
+      module: `/vendor/${vendored.route}/${decoder.module}`,
+      wasm: `/vendor/${vendored.route}/${decoder.wasm}`,
+      integrity: wasmHash
+    };
+    // Without an installed package there is no local hash to check the CDN copy against
+    const cdn: DecoderLocation | null = options.cdnFallback ? { ...decoder.cdn(version), integrity: wasmHash } : null;
+    assets[decoder.codec] = { local, cdn };
+
+    if (options.integrity && vendored) {
+      for (const [url, hash] of vendored.hashes) {
+        if (url.endsWith(".wasm")) continue;
+        moduleIntegrity[url] = hash;
+      }
+    }
+  }
+
+  const chartVersion = dependencies[CHART_PACKAGE.packageName];
+  if (!chartVersion) throw new Error(`package.json has no ${CHART_PACKAGE.packageName} dependency`);
+
+  let chartPackage: VendoredPackage | null = null;
+  try {
+    chartPackage = await vendorPackage(CHART_PACKAGE, chartVersion, [CHART_PACKAGE.script]);
+    packages.push(chartPackage);
+  } catch (error) {
+    console.warn(`⚠️ Cannot serve Chart.js: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const chartSrc = chartPackage && `/vendor/${chartPackage.route}/${CHART_PACKAGE.script}`;
+  const chartHash = options.integrity && chartPackage && chartSrc ? chartPackage.hashes.get(chartSrc) ?? null : null;
+  const chart: ChartAssets = {
+    local: chartSrc ? { src: chartSrc, integrity: chartHash } : null,
+    cdn: options.cdnFallback
+      ? { src: `https://cdn.jsdelivr.net/npm/chart.js@${chartVersion}/dist/${CHART_PACKAGE.script}`, integrity: chartHash }
+      : null
+  };
+
+  const served = packages.map(vendored => `${vendored.packageName}@${vendored.version}`).join(", ") || "none";
+  const description = `${served} (integrity ${options.integrity ? "checked" : "not checked"}, CDN fallback ${options.cdnFallback ? "on" : "off"})`;
+  return { packages, assets, chart, moduleIntegrity, description };
+}
+
+// --- Static route ---
+// Serves /vendor/<route>/<path>; only files found at startup are served, so paths can't escape the package
+export function serveVendorFile(decoders: Decoders, route: string, path: string): Response | null {
+  const file = decoders.packages.find(vendored => vendored.route === route)?.files.get(path);
+  if (!file) return null;
+
+  return new Response(Bun.file(file.path), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": VENDOR_CACHE_CONTROL
+    }
+  });
+}
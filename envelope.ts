@@ -0,0 +1,166 @@
+import { CODECS, codecTag, type CodecSettings, type CompressionResult, type CompressionType } from "./codecs";
+import { SERIALIZERS, serializerTag, type SerializationFormat } from "./serializers";
+
+// --- Frame envelope ---
+// Every data frame of the binary feeds (/feed, delta, streaming context and dictionary feeds) is a
+// fixed header followed by the compressed payload, so a client knows how each payload was made and
+// can check what it decoded. All integers are big-endian:
+//    0  uint8    version (ENVELOPE_VERSION)
+//    1  uint8    codec tag (GET /codecs)
+//    2  uint8    serialization format tag (GET /serializers)
+//    3  uint8    flags (ENVELOPE_FLAGS): which of level, window and dictionary id are set,
+//                whether the payload continues the socket's compression stream, and whether the
+//                frame is a snapshot (see below)
+//    4  uint32   message id
+//    8  uint32   original size: serialized bytes before compression
+//   12  uint32   compressed size: payload bytes after the header
+//   16  uint32   CRC-32 (IEEE) of the original bytes
+//   20  uint32   server compression time in microseconds
+//   24  float64  generation time: when the tick's data was produced, in milliseconds since the epoch
+//   32  float64  send time in milliseconds since the epoch
+//   40  int8     level
+//   41  uint8    window
+//   42  uint16   reserved (0)
+//   44  uint32   dictionary id
+//   48  uint32   sequence number: 1, 2, 3, … per feed, assigned when the frame is published
+// A later version may change everything after the first byte; clients reject versions they don't know.
+// Version 2 added the generation time. Both times are on the server's clock; clients translate them
+// with the offset from the ping/pong exchange (see index.ts) to measure end-to-end latency.
+// Version 3 added the sequence number. A snapshot repeats the feed's latest frame for a socket that
+// joins or resyncs (on a streaming feed: the first chunk of a new compression stream); clients
+// count on from a snapshot's sequence number instead of checking it against the previous frame.
+// The legacy text transport sends the same bytes base64-encoded.
+
+export const ENVELOPE_VERSION = 3;
+
+export const ENVELOPE_HEADER_BYTES = 52;
+
+export const ENVELOPE_FLAGS = {
+  level: 1,
+  window: 2,
+  dictionary: 4,
+  streamChunk: 8,
+  snapshot: 16
+} as const;
+
+export interface FrameMetadata {
+  messageId: number;
+  // Date.now() when the tick's rows were produced
+  generatedAt: number;
+  codec: CompressionType;
+  // JSON unless given
+  format?: SerializationFormat;
+  // The settings the payload was compressed with, defaults filled in
+  settings?: CodecSettings;
+  dictionaryId?: number;
+  streamChunk?: boolean;
+  // checksum() of the original bytes
+  checksum: number;
+}
+
+export function checksum(bytes: Uint8Array): number {
+  return Bun.hash.crc32(bytes);
+}
+
+// The sequence number is left 0 for setFrameSequence to fill in on publish
+export function wrapFrame(metadata: FrameMetadata, result: CompressionResult): Uint8Array {
+  const { level, window } = metadata.settings ?? {};
+  let flags = 0;
+  if (level !== undefined) flags |= ENVELOPE_FLAGS.level;
+  if (window !== undefined) flags |= ENVELOPE_FLAGS.window;
+  if (metadata.dictionaryId !== undefined) flags |= ENVELOPE_FLAGS.dictionary;
+  if (metadata.streamChunk) flags |= ENVELOPE_FLAGS.streamChunk;
+
+  const frame = new Uint8Array(ENVELOPE_HEADER_BYTES + result.compressed.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, ENVELOPE_VERSION);
+  view.setUint8(1, codecTag(metadata.codec));
+  view.setUint8(2, serializerTag(metadata.format ?? "json"));
+  view.setUint8(3, flags);
+  view.setUint32(4, metadata.messageId);
+  view.setUint32(8, result.originalSize);
+  view.setUint32(12, result.compressed.length);
+  view.setUint32(16, metadata.checksum);
+  view.setUint32(20, Math.min(Math.round(result.compressMs * 1000), 0xffffffff));
+  view.setFloat64(24, metadata.generatedAt);
+  view.setFloat64(32, Date.now());
+  view.setInt8(40, level ?? 0);
+  view.setUint8(41, window ?? 0);
+  view.setUint32(44, metadata.dictionaryId ?? 0);
+  frame.set(result.compressed, ENVELOPE_HEADER_BYTES);
+  return frame;
+}
+
+export function setFrameSequence(frame: Uint8Array, sequence: number, snapshot = false) {
+  new DataView(frame.buffer, frame.byteOffset, frame.byteLength).setUint32(48, sequence);
+  frame[3] = snapshot ? frame[3]! | ENVELOPE_FLAGS.snapshot : frame[3]! & ~ENVELOPE_FLAGS.snapshot;
+}
+
+export function frameSequence(frame: Uint8Array): number {
+  return new DataView(frame.buffer, frame.byteOffset, frame.byteLength).getUint32(48);
+}
+
+// A copy of a published frame flagged as a snapshot
+export function snapshotOf(frame: Uint8Array): Uint8Array {
+  const snapshot = frame.slice();
+  setFrameSequence(snapshot, frameSequence(frame), true);
+  return snapshot;
+}
+
+// A frame's envelope as read back; settings hold the level and window the flags mark as set
+export interface FrameHeader {
+  messageId: number;
+  codec: CompressionType;
+  format: SerializationFormat;
+  settings: CodecSettings;
+  dictionaryId: number | null;
+  streamChunk: boolean;
+  originalSize: number;
+  checksum: number;
+  compressMs: number;
+  generatedAt: number;
+  sentAt: number;
+  sequence: number;
+  snapshot: boolean;
+}
+
+// For Bun tools such as loadtest.ts; the dashboard and client.ts have their own readers, since they
+// can't import the codec registry
+export function readFrame(frame: Uint8Array): { header: FrameHeader; payload: Uint8Array } {
+  if (frame.length < ENVELOPE_HEADER_BYTES) throw new Error(`frame of ${frame.length} bytes is shorter than an envelope`);
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const version = view.getUint8(0);
+  if (version !== ENVELOPE_VERSION) throw new Error(`unsupported envelope version ${version}`);
+
+  const codec = CODECS[view.getUint8(1)]?.name;
+  const format = SERIALIZERS[view.getUint8(2)]?.name;
+  if (!codec || !format) throw new Error(`unknown codec or format tag (${view.getUint8(1)}, ${view.getUint8(2)})`);
+
+  const flags = view.getUint8(3);
+  const payload = frame.subarray(ENVELOPE_HEADER_BYTES);
+  if (payload.length !== view.getUint32(12)) throw new Error(`payload is ${payload.length} bytes, the envelope says ${view.getUint32(12)}`);
+
+  const settings: CodecSettings = {};
+  if (flags & ENVELOPE_FLAGS.level) settings.level = view.getInt8(40);
+  if (flags & ENVELOPE_FLAGS.window) settings.window = view.getUint8(41);
+
+  return {
+    header: {
+      messageId: view.getUint32(4),
+      codec,
+      format,
+      settings,
+      dictionaryId: flags & ENVELOPE_FLAGS.dictionary ? view.getUint32(44) : null,
+      streamChunk: (flags & ENVELOPE_FLAGS.streamChunk) !== 0,
+      originalSize: view.getUint32(8),
+      checksum: view.getUint32(16),
+      compressMs: view.getUint32(20) / 1000,
+      generatedAt: view.getFloat64(24),
+      sentAt: view.getFloat64(32),
+      sequence: view.getUint32(48),
+      snapshot: (flags & ENVELOPE_FLAGS.snapshot) !== 0
+    },
+    payload
+  };
+}
@@ -0,0 +1,59 @@
+// --- Row filters ---
+// /feed subscribers may ask for part of every tick: symbols=BTC/USD,ETH/USD keeps the rows of those
+// symbols and exchange=kraken,coinbase the rows of those exchanges. Both are comma-separated lists
+// matched exactly against the rows' "symbol" and "exchange" fields and combine with AND; a row
+// without the field never matches. Values are sorted and deduplicated, so equal filters get the
+// same key, and with it the same topic and compression, whatever order the client listed them in.
+
+export interface RowFilter {
+  // Null when not filtered on
+  symbols: string[] | null;
+  exchanges: string[] | null;
+}
+
+export const NO_FILTER: RowFilter = { symbols: null, exchanges: null };
+
+const MAX_FILTER_VALUES = 32;
+const FILTER_VALUE_PATTERN = /^[\w./:-]{1,32}$/;
+
+function parseFilterList(name: string, value: unknown): string[] | null | string {
+  if (value === undefined || value === "") return null;
+  if (typeof value !== "string") return `${name} must be a comma-separated list`;
+
+  const values = [...new Set(value.split(",").map(item => item.trim()))].sort();
+  if (values.length > MAX_FILTER_VALUES) return `${name} takes at most ${MAX_FILTER_VALUES} values`;
+  const invalid = values.find(item => !FILTER_VALUE_PATTERN.test(item));
+  if (invalid !== undefined) return `${name} value ${JSON.stringify(invalid)} must be 1-32 letters, digits or ._/:-`;
+  return values;
+}
+
+// From the /feed query or a setCodec command; a string is the reason the filter was rejected
+export function parseRowFilter(symbols: unknown, exchange: unknown): RowFilter | string {
+  const symbolList = parseFilterList("symbols", symbols);
+  if (typeof symbolList === "string") return symbolList;
+  const exchangeList = parseFilterList("exchange", exchange);
+  if (typeof exchangeList === "string") return exchangeList;
+  return { symbols: symbolList, exchanges: exchangeList };
+}
+
+export function isFiltered(filter: RowFilter): boolean {
+  return filter.symbols !== null || filter.exchanges !== null;
+}
+
+// Part of the feed configuration key, e.g. "symbols=BTC/USD,ETH/USD;exchange=kraken"; "" without a filter
+export function rowFilterKey(filter: RowFilter): string {
+  const parts: string[] = [];
+  if (filter.symbols) parts.push(`symbols=${filter.symbols.join(",")}`);
+  if (filter.exchanges) parts.push(`exchange=${filter.exchanges.join(",")}`);
+  return parts.join(";");
+}
+
+export function filterRows<Row extends Record<string, unknown>>(rows: Row[], filter: RowFilter): Row[] {
+  if (!isFiltered(filter)) return rows;
+
+  const symbols = filter.symbols && new Set(filter.symbols);
+  const exchanges = filter.exchanges && new Set(filter.exchanges);
+  return rows.filter(row =>
+    (!symbols || symbols.has(row.symbol as string)) &&
+    (!exchanges || exchanges.has(row.exchange as string)));
+}
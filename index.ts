@@ -1,91 +1,1332 @@
-import { Elysia } from "elysia";
+import { Elysia, t } from "elysia";
 import zlib from "zlib";
+import { ZstdCodec, type ZstdBinding, type ZstdCompressionDict, type ZstdSimple } from "zstd-codec";
+import { codecs, codecTag, compressBytes, defaultCodecSettings, feedConfigKey, noCompression, resolveCodecSettings, setCodecDefaults, type CodecSettings, type CompressionResult, type CompressionType } from "./codecs";
+import { createCounter, createCounterFunction, createGauge, createHistogram, METRICS_CONTENT_TYPE, renderMetrics } from "./metrics";
+import { createCompressionPool, toSharedBytes } from "./compression-pool";
+import { serializers, serializerTag, SERIALIZERS, type SerializationFormat } from "./serializers";
+import { checkPayloadLayout, toColumnar, type PayloadLayout } from "./layout";
+import { filterRows, isFiltered, NO_FILTER, parseRowFilter, rowFilterKey, type RowFilter } from "./filters";
+import { createGeneratorSource, createReplaySource, type DataSource, type SourceRow } from "./sources";
+import { formatConfig, loadConfig, type StreamingCodec } from "./config";
+import { loadDecoders, serveVendorFile } from "./decoders";
+import { checksum, setFrameSequence, snapshotOf, wrapFrame } from "./envelope";
 
-// --- Types for different compression methods ---
-type CompressionType = "none" | "gzip" | "brotli" | "zstd";
+// --- Configuration (defaults < config file < environment < flags; see config.ts) ---
+const { config: serverConfig, settings: configSettings } = await loadConfig(Bun.argv.slice(2), Bun.env);
+console.log(`⚙️ Configuration:\n${formatConfig(configSettings)}`);
 
-interface PriceData {
-  ts: number;
-  price: string;
-  compression: CompressionType;
-  originalSize?: number;
-  compressedSize?: number;
+for (const [name, settings] of Object.entries(serverConfig.codecs)) {
+  setCodecDefaults(name, settings);
 }
 
-// --- Helper functions for compression ---
-function compressWithGzip(data: unknown): { compressed: string; originalSize: number; compressedSize: number } {
-  const jsonString = JSON.stringify(data);
-  const originalBuffer = Buffer.from(jsonString);
-  const compressedBuffer = zlib.gzipSync(originalBuffer);
+// Base URL of the WebSocket routes, also handed to the dashboard
+const feedBaseUrl = serverConfig.publicUrl.replace(/^http/, "ws");
+
+// --- WASM decoders and Chart.js for the dashboard (served under /vendor, see decoders.ts) ---
+const wasmDecoders = await loadDecoders(serverConfig.decoders);
+
+// Import map listing the decoder modules' hashes; left out without integrity checks
+function decoderImportMap(): string {
+  if (Object.keys(wasmDecoders.moduleIntegrity).length === 0) return "";
+  return `<script type="importmap">${JSON.stringify({ integrity: wasmDecoders.moduleIntegrity }).replace(/</g, "\\u003c")}</script>`;
+}
+
+// Chart.js from this server, with its hash when integrity checks are on; the dashboard copes without it
+function chartScriptTag(): string {
+  const { local } = wasmDecoders.chart;
+  if (!local) return "";
+  return local.integrity ? `<script src="${local.src}" integrity="${local.integrity}"></script>` : `<script src="${local.src}"></script>`;
+}
+
+// --- Transport encodings for compressed payloads ---
+// "binary" publishes enveloped frames (see envelope.ts) as binary WebSocket frames (exact sizes on the wire)
+// "base64" is the legacy text transport: the same frames base64-encoded (~33% larger)
+type TransportEncoding = "binary" | "base64";
+
+const TRANSPORT_ENCODINGS: TransportEncoding[] = ["binary", "base64"];
+
+// --- Helper functions for transport ---
+function parseTransportEncoding(value: unknown): TransportEncoding {
+  return value === "base64" ? "base64" : "binary";
+}
+
+function feedTopic(feed: string, encoding: TransportEncoding): string {
+  return encoding === "binary" ? `feed-${feed}` : `feed-${feed}-base64`;
+}
+
+function encodeForTransport(frame: Uint8Array, encoding: TransportEncoding): string | Uint8Array {
+  return encoding === "binary" ? frame : Buffer.from(frame).toString("base64");
+}
+
+// Elysia hands over JSON text frames already parsed; null for anything that is not a JSON object
+function parseJsonMessage(message: unknown): Record<string, unknown> | null {
+  let parsed = message;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  return typeof parsed === "object" && parsed !== null ? parsed as Record<string, unknown> : null;
+}
+
+// --- Subscribers ---
+// Every feed socket is tracked from open to close, with what happened to the frames sent to it
+// directly (publish() doesn't report per socket) and its backpressure state (see Slow consumers).
+
+// The parts of Bun's ServerWebSocket the broadcaster uses
+interface SubscriberSocket {
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  send(data: string | Uint8Array, compress?: boolean): number;
+  close(code?: number, reason?: string): void;
+  getBufferedAmount(): number;
+}
+
+interface Subscriber {
+  id: string;
+  // Route the socket connected to, the label of its metrics
+  route: string;
+  socket: SubscriberSocket;
+  encoding: TransportEncoding;
+  // The feed and data topic it receives frames on; null while paused and on the streaming feeds
+  feed: string | null;
+  topic: string | null;
+  // Results of direct sends: Bun queues the frame (sent), queues it with the socket over its
+  // backpressure limit (backpressure) or drops it (dropped)
+  sends: Record<SendResult, number>;
+  // When its backlog first went over backpressure.limitBytes; null while it keeps up
+  slowSince: number | null;
+  // Frames withheld since drop-stale took it out of its topic; null while subscribed
+  parked: { dropped: number } | null;
+  // Consecutive checks with the backlog under half the limit
+  healthyChecks: number;
+  closed: boolean;
+  // Snapshot to join with instead of the feed's latest frame (the delta feed sends the full dataset)
+  snapshotFrame?: () => Uint8Array | null;
+  // False when a frame can't be skipped (the streaming context feeds)
+  canDrop: boolean;
+}
+
+type SendResult = "sent" | "backpressure" | "dropped";
+
+const subscribers = new Map<string, Subscriber>();
+
+// Elysia's copy of the Bun types predates getBufferedAmount(), which Bun's sockets do have
+interface TrackedSocket {
+  id: unknown;
+  raw: Omit<SubscriberSocket, "getBufferedAmount">;
+}
+
+function trackSubscriber(ws: TrackedSocket, route: string, encoding: TransportEncoding, options: Pick<Subscriber, "snapshotFrame"> & Partial<Pick<Subscriber, "canDrop">> = {}): Subscriber {
+  const subscriber: Subscriber = {
+    id: String(ws.id),
+    route,
+    socket: ws.raw as SubscriberSocket,
+    encoding,
+    feed: null,
+    topic: null,
+    sends: { sent: 0, backpressure: 0, dropped: 0 },
+    slowSince: null,
+    parked: null,
+    healthyChecks: 0,
+    closed: false,
+    canDrop: true,
+    ...options
+  };
+  subscribers.set(subscriber.id, subscriber);
+  return subscriber;
+}
+
+function untrackSubscriber(ws: TrackedSocket) {
+  const subscriber = subscribers.get(String(ws.id));
+  if (!subscriber) return;
+
+  subscriber.closed = true;
+  leaveTopic(subscriber);
+  subscribers.delete(subscriber.id);
+  if (subscriber.slowSince !== null || subscriber.sends.backpressure > 0 || subscriber.sends.dropped > 0) {
+    const { sent, backpressure, dropped } = subscriber.sends;
+    console.log(`🐢 ${subscriber.route} subscriber ${subscriber.id} closed (direct sends: ${sent} sent, ${backpressure} over the backpressure limit, ${dropped} dropped)`);
+  }
+}
+
+function sendTo(subscriber: Subscriber, data: string | Uint8Array, compress = false) {
+  const status = subscriber.socket.send(data, compress);
+  const result: SendResult = status > 0 ? "sent" : status === -1 ? "backpressure" : "dropped";
+  subscriber.sends[result]++;
+  subscriberSends.inc({ route: subscriber.route, result });
+}
+
+// --- Topic subscriptions ---
+// Subscribers per topic, so the broadcaster only encodes for topics that have listeners and can
+// check each one's backlog before publishing. A subscriber is in at most one of these topics.
+const topicSubscribers = new Map<string, Set<Subscriber>>();
+
+// Joining starts with a snapshot of the feed (see Sequence numbers and resync)
+function joinTopic(subscriber: Subscriber, feed: string) {
+  const topic = feedTopic(feed, subscriber.encoding);
+  subscriber.socket.subscribe(topic);
+  subscriber.feed = feed;
+  subscriber.topic = topic;
+  let members = topicSubscribers.get(topic);
+  if (!members) {
+    members = new Set();
+    topicSubscribers.set(topic, members);
+  }
+  members.add(subscriber);
+
+  const snapshot = snapshotFor(subscriber);
+  if (snapshot) sendTo(subscriber, snapshot);
+}
+
+function leaveTopic(subscriber: Subscriber) {
+  if (!subscriber.topic) return;
+
+  // A parked subscriber is already out of the Bun topic
+  if (!subscriber.parked) subscriber.socket.unsubscribe(subscriber.topic);
+  subscriber.parked = null;
+  const members = topicSubscribers.get(subscriber.topic);
+  members?.delete(subscriber);
+  // Filters make for any number of topics, so only those with subscribers are kept
+  if (members?.size === 0) topicSubscribers.delete(subscriber.topic);
+  subscriber.feed = null;
+  subscriber.topic = null;
+}
+
+function hasSubscribers(feed: string): boolean {
+  return TRANSPORT_ENCODINGS.some(encoding => (topicSubscribers.get(feedTopic(feed, encoding))?.size ?? 0) > 0);
+}
+
+// --- Sequence numbers and resync ---
+// The frames of every feed are numbered 1, 2, 3, … in their envelope as they are published, so a
+// client can tell when it missed one (dropped while it was slow, or lost on the way). A socket that
+// joins a feed (on open, setCodec, resume or a backpressure move) first gets a snapshot: the feed's
+// latest frame again, flagged as a snapshot, which the client counts on from. A client that sees a
+// gap sends {"op":"resync","from":<the last sequence number it has>}. The frames after it are
+// replayed from the last resync.historyFrames of the feed, or a fresh snapshot is sent when those
+// don't reach back far enough; the reply follows them: {"op":"ack","cmd":"resync","sequence":…,
+// "replayed":n} or {…,"snapshot":true}.
+// Streaming context sockets number their own chunks. When their history is too short, the compressor
+// restarts and the next chunk, the first of a new stream, is the snapshot. permessage-deflate frames
+// have no envelope; their {"op":"wire"} messages carry the sequence number, and since every frame is
+// a whole dataset they are not replayed.
+
+const RESYNC_HISTORY_FRAMES = serverConfig.resync.historyFrames;
+
+interface FeedHistory {
+  // Sequence number of the latest frame
+  sequence: number;
+  // The latest RESYNC_HISTORY_FRAMES frames, oldest first
+  frames: Uint8Array[];
+}
+
+type ResyncResult = "current" | "replayed" | "snapshot" | "refused";
+
+const feedHistories = new Map<string, FeedHistory>();
+
+function createFeedHistory(): FeedHistory {
+  return { sequence: 0, frames: [] };
+}
+
+// Numbers the frame and keeps it for resyncs
+function recordFrame(history: FeedHistory, frame: Uint8Array, snapshot = false) {
+  history.sequence++;
+  setFrameSequence(frame, history.sequence, snapshot);
+  history.frames.push(frame);
+  if (history.frames.length > RESYNC_HISTORY_FRAMES) history.frames.shift();
+}
+
+// Encoded for the subscriber's transport; null before the feed's first frame
+function snapshotFor(subscriber: Subscriber): string | Uint8Array | null {
+  const latest = subscriber.feed ? feedHistories.get(subscriber.feed)?.frames.at(-1) : undefined;
+  const frame = subscriber.snapshotFrame ? subscriber.snapshotFrame() : latest && snapshotOf(latest);
+  return frame ? encodeForTransport(frame, subscriber.encoding) : null;
+}
+
+// Null for anything that is not a resync request, the error for a malformed one
+function parseResyncRequest(message: unknown): number | string | null {
+  const request = parseJsonMessage(message);
+  if (request?.op !== "resync") return null;
+
+  const { from } = request;
+  return typeof from === "number" && Number.isInteger(from) && from >= 0 ? from : "from must be a sequence number";
+}
+
+function resync(subscriber: Subscriber, from: number): ControlReply {
+  const stream = streamingSubscribers.get(subscriber.id);
+  const history = stream?.history ?? (subscriber.feed ? feedHistories.get(subscriber.feed) : undefined);
+
+  let result: ResyncResult;
+  let reply: ControlReply;
+  if (subscriber.feed === PERMESSAGE_DEFLATE_FEED) {
+    result = "refused";
+    reply = { op: "error", cmd: "resync", error: "permessage-deflate frames are whole datasets and are not replayed" };
+  } else if (subscriber.parked) {
+    result = "refused";
+    reply = { op: "error", cmd: "resync", error: "held back as a slow consumer, a snapshot follows once the backlog drains" };
+  } else if (!history || from >= history.sequence) {
+    result = "current";
+    reply = { op: "ack", cmd: "resync", sequence: history?.sequence ?? 0, replayed: 0 };
+  } else {
+    const first = history.sequence - history.frames.length + 1;
+    if (from + 1 >= first) {
+      const missed = history.frames.slice(from + 1 - first);
+      for (const frame of missed) {
+        sendTo(subscriber, encodeForTransport(frame, subscriber.encoding));
+      }
+      result = "replayed";
+      reply = { op: "ack", cmd: "resync", sequence: history.sequence, replayed: missed.length };
+    } else {
+      if (stream) restartStream(stream);
+      else {
+        const snapshot = snapshotFor(subscriber);
+        if (snapshot) sendTo(subscriber, snapshot);
+      }
+      result = "snapshot";
+      reply = { op: "ack", cmd: "resync", sequence: history.sequence, snapshot: true };
+    }
+  }
+
+  resyncRequests.inc({ route: subscriber.route, result });
+  console.log(`🔁 Resync of ${subscriber.route} subscriber ${subscriber.id} from #${from}: ${result}${result === "replayed" ? ` (${reply.replayed} frames)` : ""}`);
+  return reply;
+}
+
+// Answers pings and resync requests, which every feed socket may send; false for other messages
+function answerFeedMessage(ws: TrackedSocket, message: unknown): boolean {
+  const subscriber = subscribers.get(String(ws.id));
+  if (!subscriber) return false;
+
+  const pong = pongReply(message);
+  if (pong) {
+    subscriber.socket.send(pong);
+    return true;
+  }
+
+  const from = parseResyncRequest(message);
+  if (from === null) return false;
+
+  const reply = typeof from === "string" ? { op: "error", cmd: "resync", error: from } : resync(subscriber, from);
+  subscriber.socket.send(JSON.stringify(reply));
+  return true;
+}
+
+// --- Feed configurations ---
+// Distinct codec settings, serialization formats, payload layouts and row filters requested on /feed.
+// Each configuration gets its own topic when a subscriber first asks for it and is dropped by the first
+// tick without subscribers. Subscribers with identical settings share the topic, so each configuration
+// is filtered and compressed once per tick however many clients use it.
+interface FeedConfig {
+  key: string;
+  codec: CompressionType;
+  settings: CodecSettings;
+  format: SerializationFormat;
+  layout: PayloadLayout;
+  filter: RowFilter;
+}
+
+const feedConfigs = new Map<string, FeedConfig>();
+
+// Unfiltered JSON row configurations keep their codec key; other formats, layouts and filters
+// append theirs, e.g. "brotli-l10-w15-cbor", "zstd-l6-columns" or "gzip-l6-w15[exchange=kraken]"
+function formatConfigKey(codec: CompressionType, settings: CodecSettings, format: SerializationFormat, layout: PayloadLayout = "rows", filter: RowFilter = NO_FILTER): string {
+  const key = feedConfigKey(codec, settings);
+  const formatKey = format === "json" ? key : `${key}-${format}`;
+  const layoutKey = layout === "rows" ? formatKey : `${formatKey}-${layout}`;
+  const filterKey = rowFilterKey(filter);
+  return filterKey ? `${layoutKey}[${filterKey}]` : layoutKey;
+}
+
+function registerFeedConfig(codec: CompressionType, settings: CodecSettings, format: SerializationFormat, layout: PayloadLayout, filter: RowFilter): FeedConfig {
+  const key = formatConfigKey(codec, settings, format, layout, filter);
+  let config = feedConfigs.get(key);
+  if (!config) {
+    config = { key, codec, settings, format, layout, filter };
+    feedConfigs.set(key, config);
+  }
+  return config;
+}
+
+// The tick may have dropped the configuration while nobody was subscribed
+function reregisterFeedConfig({ codec, settings, format, layout, filter }: FeedConfig): FeedConfig {
+  return registerFeedConfig(codec, settings, format, layout, filter);
+}
+
+function checkSerializationFormat(format: SerializationFormat): string | null {
+  return serializers.has(format) ? null : `format must be one of ${[...serializers.keys()].join(", ")}`;
+}
+
+// --- In-band control protocol (/feed) ---
+// Clients send JSON text frames to change their subscription without reconnecting:
+//   {"op":"setCodec","codec":"zstd","level":3}   (level/window/format/layout/symbols/exchange optional, as in the /feed query)
+//   {"op":"pause"} / {"op":"resume"}
+//   {"op":"resync","from":…}   (on every feed route, see Sequence numbers and resync)
+// Each command is answered with {"op":"ack","cmd":…,…} or {"op":"error","cmd":…,"error":…}.
+// Data frames carry the codec, settings and serialization format they were encoded with in their
+// envelope (see envelope.ts), so a switch needs no new socket. Replies are JSON text, which a
+// base64 data frame never starts with. The payload layout needs no tag: a columnar batch is an
+// object, rows are an array (see layout.ts).
+
+type ControlCommand =
+  | { op: "setCodec"; codec: CompressionType; level?: number; window?: number; format?: SerializationFormat; layout?: PayloadLayout; symbols?: string; exchange?: string }
+  | { op: "pause" }
+  | { op: "resume" };
+
+type ControlReply = { op: "ack" | "error"; cmd?: string; [field: string]: unknown };
+
+interface FeedSession {
+  subscriber: Subscriber;
+  config: FeedConfig;
+  encoding: TransportEncoding;
+  paused: boolean;
+  // Set while the downgrade policy has the session on a smaller codec: the configuration to go back
+  // to and the backlog it had when it was moved
+  downgrade: { from: FeedConfig; bufferedBytes: number } | null;
+}
+
+const feedSessions = new Map<string, FeedSession>();
+
+function parseControlCommand(message: unknown): ControlCommand | string {
+  const command = parseJsonMessage(message);
+  if (!command) {
+    return "control frames must be JSON objects";
+  }
+
+  const { op, codec, level, window, format, layout, symbols, exchange } = command;
+  switch (op) {
+    case "pause":
+    case "resume":
+      return { op };
+    case "setCodec":
+      if (typeof codec !== "string") {
+        return "codec must be a string";
+      }
+      if ((level !== undefined && typeof level !== "number") || (window !== undefined && typeof window !== "number")) {
+        return "level and window must be numbers";
+      }
+      if ((format !== undefined && typeof format !== "string") || (layout !== undefined && typeof layout !== "string")) {
+        return "format and layout must be strings";
+      }
+      if ((symbols !== undefined && typeof symbols !== "string") || (exchange !== undefined && typeof exchange !== "string")) {
+        return "symbols and exchange must be comma-separated strings";
+      }
+      return { op, codec, level, window, format, layout: layout as PayloadLayout | undefined, symbols, exchange };
+    default:
+      return `unknown op ${JSON.stringify(op)}`;
+  }
+}
+
+function handleControlCommand(session: FeedSession, command: ControlCommand): ControlReply {
+  switch (command.op) {
+    case "setCodec": {
+      const format = command.format ?? "json";
+      const layout = command.layout ?? "rows";
+      const settings = checkSerializationFormat(format) ?? checkPayloadLayout(layout) ?? resolveCodecSettings(command.codec, command.level, command.window);
+      if (typeof settings === "string") {
+        return { op: "error", cmd: command.op, error: settings };
+      }
+      const filter = parseRowFilter(command.symbols, command.exchange);
+      if (typeof filter === "string") {
+        return { op: "error", cmd: command.op, error: filter };
+      }
+
+      const config = registerFeedConfig(command.codec, settings, format, layout, filter);
+      if (!session.paused && config.key !== session.config.key) {
+        leaveTopic(session.subscriber);
+        joinTopic(session.subscriber, config.key);
+      }
+      session.config = config;
+      // The client's choice replaces whatever a downgrade would have restored
+      session.downgrade = null;
+      return { op: "ack", cmd: command.op, key: config.key, codec: config.codec, format, layout, filter, ...settings };
+    }
+    case "pause":
+      if (!session.paused) {
+        leaveTopic(session.subscriber);
+        session.paused = true;
+      }
+      return { op: "ack", cmd: command.op, key: session.config.key };
+    case "resume":
+      if (session.paused) {
+        session.config = reregisterFeedConfig(session.config);
+        joinTopic(session.subscriber, session.config.key);
+        session.paused = false;
+      }
+      return { op: "ack", cmd: command.op, key: session.config.key };
+  }
+}
+
+// --- Clock sync ---
+// Every feed socket answers {"op":"ping","clientTime":…} with {"op":"pong","clientTime":…,"serverTime":…}.
+// The client takes the round trip with the smallest delay as its estimate of the offset between its
+// clock and the server's, which the envelope timestamps are on. Pongs are text frames like the
+// control replies.
+
+// Null for anything that is not a ping
+function pongReply(message: unknown): string | null {
+  const ping = parseJsonMessage(message);
+  if (!ping) return null;
+
+  const { op, clientTime } = ping;
+  if (op !== "ping" || typeof clientTime !== "number") return null;
+  return JSON.stringify({ op: "pong", clientTime, serverTime: Date.now() });
+}
+
+// --- Slow consumers ---
+// Every tick publishes a frame of ~60–400KB per feed, and a socket that can't take them fast enough
+// (a phone on a poor connection) just queues more and more of them. Before each frame goes out the
+// broadcaster checks every recipient's buffered amount; one with more than backpressure.limitBytes
+// queued is slow, and backpressure.policy decides what happens to it:
+//   none        it is only logged and counted
+//   drop-stale  it is taken out of its topic, so frames are dropped instead of queued, and put back
+//               once its backlog is under half the limit, starting with a snapshot of the newest
+//               frame (see Sequence numbers and resync)
+//   downgrade   a /feed session moves to backpressure.downgradeCodec with its format, layout and filter,
+//               is told so with {"op":"backpressure","action":"downgrade",…} and moves back once it
+//               has kept up for DOWNGRADE_RESTORE_CHECKS frames. Other feeds, and sessions whose
+//               backlog keeps growing after the move, are handled as drop-stale.
+//   disconnect  it is closed with SLOW_CONSUMER_CLOSE_CODE and the backlog as the reason
+// Streaming context feeds can't skip a chunk of their compression stream, so drop-stale and
+// downgrade close those sockets too. Each action is logged and counted in backpressure_actions_total.
+
+const BACKPRESSURE_POLICY = serverConfig.backpressure.policy;
+const BACKPRESSURE_LIMIT_BYTES = serverConfig.backpressure.limitBytes;
+// A slow subscriber under this is keeping up again
+const BACKPRESSURE_RESUME_BYTES = BACKPRESSURE_LIMIT_BYTES / 2;
+const DOWNGRADE_RESTORE_CHECKS = 5;
+const SLOW_CONSUMER_CLOSE_CODE = 4001;
+
+type BacklogCheck = "send" | "skip" | "resume";
+
+function formatBacklog(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function slowFor(subscriber: Subscriber): string {
+  return `${((performance.now() - (subscriber.slowSince ?? performance.now())) / 1000).toFixed(1)}s`;
+}
+
+// Decides whether the next frame goes to the subscriber: "skip" while it is held back or closed,
+// "resume" when a held-back subscriber has drained and should get this frame
+function checkBacklog(subscriber: Subscriber): BacklogCheck {
+  if (subscriber.closed) return "skip";
+
+  const buffered = subscriber.socket.getBufferedAmount();
+  if (buffered > BACKPRESSURE_LIMIT_BYTES) {
+    subscriber.healthyChecks = 0;
+    if (subscriber.parked) return "skip";
+    if (subscriber.slowSince === null) {
+      subscriber.slowSince = performance.now();
+      backpressureActions.inc({ route: subscriber.route, action: "slow" });
+      console.log(`🐢 Slow ${subscriber.route} subscriber ${subscriber.id}: ${formatBacklog(buffered)} buffered (limit ${formatBacklog(BACKPRESSURE_LIMIT_BYTES)}, policy ${BACKPRESSURE_POLICY})`);
+    }
+    return applyBackpressurePolicy(subscriber, buffered);
+  }
+  if (buffered > BACKPRESSURE_RESUME_BYTES) {
+    subscriber.healthyChecks = 0;
+    return subscriber.parked ? "skip" : "send";
+  }
+
+  subscriber.healthyChecks++;
+  if (subscriber.parked) return "resume";
+
+  const session = feedSessions.get(subscriber.id);
+  if (session?.downgrade) {
+    if (subscriber.healthyChecks >= DOWNGRADE_RESTORE_CHECKS) restoreSession(session);
+  } else if (subscriber.slowSince !== null) {
+    console.log(`🐇 Slow ${subscriber.route} subscriber ${subscriber.id} caught up after ${slowFor(subscriber)}`);
+    subscriber.slowSince = null;
+  }
+  return "send";
+}
+
+function applyBackpressurePolicy(subscriber: Subscriber, buffered: number): BacklogCheck {
+  switch (BACKPRESSURE_POLICY) {
+    case "none":
+      return "send";
+    case "disconnect":
+      disconnectSubscriber(subscriber, buffered);
+      return "skip";
+    case "downgrade": {
+      const session = feedSessions.get(subscriber.id);
+      if (session && !session.downgrade && downgradeSession(session, buffered)) return "skip";
+      // Give the smaller frames a chance to drain the backlog
+      if (session?.downgrade && buffered <= session.downgrade.bufferedBytes) return "send";
+      break;
+    }
+    case "drop-stale":
+      break;
+  }
+
+  if (!subscriber.canDrop) {
+    disconnectSubscriber(subscriber, buffered);
+    return "skip";
+  }
+  parkSubscriber(subscriber, buffered);
+  return "skip";
+}
+
+// The socket's close handler untracks it
+function disconnectSubscriber(subscriber: Subscriber, buffered: number) {
+  subscriber.closed = true;
+  backpressureActions.inc({ route: subscriber.route, action: "disconnect" });
+  console.log(`🔌 Disconnecting slow ${subscriber.route} subscriber ${subscriber.id}: ${formatBacklog(buffered)} buffered`);
+  subscriber.socket.close(SLOW_CONSUMER_CLOSE_CODE, `slow consumer: ${buffered} bytes buffered`);
+}
+
+function parkSubscriber(subscriber: Subscriber, buffered: number) {
+  if (!subscriber.topic) return;
+
+  subscriber.socket.unsubscribe(subscriber.topic);
+  subscriber.parked = { dropped: 0 };
+  backpressureActions.inc({ route: subscriber.route, action: "park" });
+  console.log(`🐢 Dropping stale frames for ${subscriber.route} subscriber ${subscriber.id} until its ${formatBacklog(buffered)} backlog drains`);
+}
+
+// Sends a snapshot of the frame being published (the frame itself on permessage-deflate) and puts
+// the subscriber back in its topic
+function resumeSubscriber(subscriber: Subscriber, data: string | Uint8Array, compress: boolean) {
+  const { parked, topic } = subscriber;
+  if (!parked || !topic) return;
+
+  const snapshot = snapshotFor(subscriber);
+  if (snapshot) sendTo(subscriber, snapshot);
+  else sendTo(subscriber, data, compress);
+  subscriber.socket.subscribe(topic);
+  subscriber.parked = null;
+  backpressureActions.inc({ route: subscriber.route, action: "resume" });
+  console.log(`🐇 Resumed ${subscriber.route} subscriber ${subscriber.id} after ${slowFor(subscriber)}, ${parked.dropped} stale frames dropped`);
+  // A downgraded session stays slow until it is restored
+  if (!feedSessions.get(subscriber.id)?.downgrade) subscriber.slowSince = null;
+}
+
+function moveSession(session: FeedSession, config: FeedConfig) {
+  leaveTopic(session.subscriber);
+  joinTopic(session.subscriber, config.key);
+  session.config = config;
+}
+
+// False when the session can't get any smaller this way
+function downgradeSession(session: FeedSession, buffered: number): boolean {
+  const codec = codecs.get(serverConfig.backpressure.downgradeCodec);
+  if (session.paused || !codec) return false;
+
+  const { format, layout, filter } = session.config;
+  const config = registerFeedConfig(codec.name, defaultCodecSettings(codec), format, layout, filter);
+  if (config.key === session.config.key) return false;
+
+  const { subscriber } = session;
+  console.log(`🔻 Downgrading slow /feed subscriber ${subscriber.id} from ${session.config.key} to ${config.key} (${formatBacklog(buffered)} buffered)`);
+  session.downgrade = { from: session.config, bufferedBytes: buffered };
+  moveSession(session, config);
+  backpressureActions.inc({ route: subscriber.route, action: "downgrade" });
+  sendTo(subscriber, JSON.stringify({ op: "backpressure", action: "downgrade", key: config.key, codec: config.codec, bufferedBytes: buffered }));
+  return true;
+}
+
+function restoreSession(session: FeedSession) {
+  if (!session.downgrade) return;
+
+  const config = reregisterFeedConfig(session.downgrade.from);
+  const { subscriber } = session;
+  console.log(`🔺 Restoring /feed subscriber ${subscriber.id} to ${config.key} after ${slowFor(subscriber)}`);
+  session.downgrade = null;
+  if (!session.paused) moveSession(session, config);
+  else session.config = config;
+  subscriber.slowSince = null;
+  backpressureActions.inc({ route: subscriber.route, action: "restore" });
+  sendTo(subscriber, JSON.stringify({ op: "backpressure", action: "restore", key: config.key, codec: config.codec }));
+}
+
+// Publishes to the topic's subscribers that keep up; held-back ones get the frame directly once
+// they have drained
+function publishToTopic(topic: string, data: string | Uint8Array, compress = false) {
+  const members = topicSubscribers.get(topic);
+  if (!members?.size) return;
+
+  const resuming = [...members].filter(subscriber => checkBacklog(subscriber) === "resume");
+  app.server?.publish(topic, data, compress);
+  for (const subscriber of resuming) {
+    resumeSubscriber(subscriber, data, compress);
+  }
+  for (const subscriber of members) {
+    if (!subscriber.parked) continue;
+    subscriber.parked.dropped++;
+    backpressureActions.inc({ route: subscriber.route, action: "drop" });
+  }
+}
+
+// --- Streaming context compressors ---
+// Each subscriber of a streaming feed owns a long-lived compressor. Every message is flushed at
+// its boundary instead of ending the stream, so the window carries over and a message can
+// reference the previous ones (gzip is limited to a 32KB window, Brotli/Zstd can see whole messages).
+// Their level and window come from the streaming.* settings unless the caller passes its own.
+
+// compress() rejects once the stream has failed; a failed compressor can only be replaced
+interface StreamingCompressor {
+  compress(input: Uint8Array): Promise<Uint8Array>;
+  close(): void;
+}
+
+interface StreamingSubscriber {
+  subscriber: Subscriber;
+  codec: StreamingCodec;
+  encoding: TransportEncoding;
+  compressor: StreamingCompressor;
+  // This socket's chunks, numbered like a feed's frames
+  history: FeedHistory;
+  // Set until the first chunk of the compressor's stream is sent, which is flagged as a snapshot
+  streamStart: boolean;
+}
+
+const streamingSubscribers = new Map<string, StreamingSubscriber>();
+
+function createStreamingCompressor(codec: StreamingCodec, settings: CodecSettings = serverConfig.streaming[codec]): StreamingCompressor {
+  const { stream, flushKind } =
+    codec === "gzip" ? {
+      stream: zlib.createGzip({ level: settings.level, windowBits: settings.window }),
+      flushKind: zlib.constants.Z_SYNC_FLUSH
+    } :
+    codec === "brotli" ? {
+      stream: zlib.createBrotliCompress({
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: 0,
+          [zlib.constants.BROTLI_PARAM_QUALITY]: settings.level ?? 10,
+          [zlib.constants.BROTLI_PARAM_LGWIN]: settings.window ?? 22,
+          [zlib.constants.BROTLI_PARAM_LGBLOCK]: 20,
+        },
+      }),
+      flushKind: zlib.constants.BROTLI_OPERATION_FLUSH
+    } : {
+      stream: zlib.createZstdCompress({
+        params: {
+          [zlib.constants.ZSTD_c_compressionLevel]: settings.level ?? 6,
+          ...(settings.window !== undefined ? { [zlib.constants.ZSTD_c_windowLog]: settings.window } : {})
+        }
+      }),
+      flushKind: zlib.constants.ZSTD_e_flush
+    };
+
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  // A stream that errored never calls the flush callback again: fail the message in flight and
+  // every later one instead of leaving them waiting
+  let failure: Error | null = null;
+  let rejectPending: ((error: Error) => void) | null = null;
+  stream.on("error", (error) => {
+    console.error(`❌ ${codec} streaming compressor error:`, error);
+    failure = error;
+    rejectPending?.(error);
+    rejectPending = null;
+  });
+
+  // Serialize messages so a flush never collects output that belongs to the next message
+  let queue: Promise<unknown> = Promise.resolve();
 
   return {
-    compressed: compressedBuffer.toString("base64"),
-    originalSize: originalBuffer.length,
-    compressedSize: compressedBuffer.length
+    compress(input) {
+      const result = queue.then(() => new Promise<Uint8Array>((resolve, reject) => {
+        if (failure) {
+          reject(failure);
+          return;
+        }
+        rejectPending = reject;
+        stream.write(input);
+        stream.flush(flushKind, () => {
+          rejectPending = null;
+          resolve(Buffer.concat(chunks.splice(0)));
+        });
+      }));
+      queue = result.catch(() => {});
+      return result;
+    },
+    // After the queued messages are flushed
+    close() {
+      queue.then(() => stream.close());
+    }
   };
 }
 
-function compressWithBrotli(data: unknown): { compressed: string; originalSize: number; compressedSize: number } | null {
-  try {
-    const jsonString = JSON.stringify(data);
-    const originalBuffer = Buffer.from(jsonString);
-
-    // Optimized Brotli parameters for streaming (based on performance testing)
-    // Quality 6: Fast compression with excellent ratio (3.86ms, 7.64x compression)
-    // Mode 0: Generic mode works best for mixed financial data
-    // Window 15: Optimal window size for this dataset size
-    // Block 20: Good block size for streaming performance
-    const compressedBuffer = zlib.brotliCompressSync(originalBuffer, {
-      params: {
-        [zlib.constants.BROTLI_PARAM_MODE]: 0,     // generic mode (best for mixed data)
-        [zlib.constants.BROTLI_PARAM_QUALITY]: 10,  // optimized for streaming (fast + good compression)
-        [zlib.constants.BROTLI_PARAM_LGWIN]: 15,   // window size optimization
-        [zlib.constants.BROTLI_PARAM_LGBLOCK]: 20, // block size optimization
+function addStreamingSubscriber(subscriber: Subscriber, codec: StreamingCodec, encoding: TransportEncoding) {
+  streamingSubscribers.set(subscriber.id, {
+    subscriber,
+    codec,
+    encoding,
+    compressor: createStreamingCompressor(codec),
+    history: createFeedHistory(),
+    streamStart: true
+  });
+}
+
+// The next chunk starts a new stream, which the client can decode without the chunks before it
+function restartStream(stream: StreamingSubscriber) {
+  stream.compressor.close();
+  stream.compressor = createStreamingCompressor(stream.codec);
+  stream.streamStart = true;
+}
+
+function removeStreamingSubscriber(id: string) {
+  streamingSubscribers.get(id)?.compressor.close();
+  streamingSubscribers.delete(id);
+}
+
+// --- permessage-deflate wire accounting ---
+// Bun compresses permessage-deflate frames inside the WebSocket layer and only reports the
+// uncompressed length, so a loopback probe subscribes like a browser would (negotiating the
+// extension) and counts the bytes of every frame it actually receives.
+const PERMESSAGE_DEFLATE_FEED = "permessage-deflate";
+const PERMESSAGE_DEFLATE_TOPIC = feedTopic(PERMESSAGE_DEFLATE_FEED, "binary");
+const PERMESSAGE_DEFLATE_WIRE_TOPIC = "feed-permessage-deflate-wire";
+
+interface WireFrame {
+  messageId: number;
+  // Numbered like the enveloped feeds' frames
+  sequence: number;
+  payloadBytes: number;
+  // Server clock, standing in for the envelope these frames don't have
+  generatedAt: number;
+  sentAt: number;
+}
+
+const wireStats = { messages: 0, payloadBytes: 0, wireBytes: 0 };
+
+// Frames published while the probe is connected, in the order it will receive them
+const pendingWireFrames: WireFrame[] = [];
+let wireProbeReady = false;
+
+// /internal/wire-probe is for startWireProbe only: it must come from a loopback address and carry
+// this process's token, so neither browsers nor a reverse proxy on the same host can subscribe to it
+const WIRE_PROBE_TOKEN = crypto.randomUUID();
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+function isWireProbeRequest(address: string | undefined, token: string | undefined): boolean {
+  return address !== undefined && LOOPBACK_ADDRESSES.has(address) && token === WIRE_PROBE_TOKEN;
+}
+let permessageDeflateSequence = 0;
+
+function trackWireFrame(frame: WireFrame) {
+  if (wireProbeReady) {
+    pendingWireFrames.push(frame);
+  }
+}
+
+function recordWireFrame(wireBytes: number) {
+  const frame = pendingWireFrames.shift();
+  if (!frame) return;
+
+  wireStats.messages++;
+  wireStats.payloadBytes += frame.payloadBytes;
+  wireStats.wireBytes += wireBytes;
+
+  console.log(`🌐 permessage-deflate #${frame.messageId}: ${frame.payloadBytes.toLocaleString()} → ${wireBytes.toLocaleString()} bytes on the wire`);
+
+  // Tell subscribers the real size of the frame they just received (sent uncompressed)
+  app.server?.publish(PERMESSAGE_DEFLATE_WIRE_TOPIC, JSON.stringify({ op: "wire", ...frame, wireBytes }));
+}
+
+function startWireProbe(port: number) {
+  let buffer = Buffer.alloc(0);
+  let upgraded = false;
+  let messageBytes = 0; // wire bytes of the current (possibly fragmented) message
+
+  Bun.connect({
+    hostname: "localhost",
+    port,
+    socket: {
+      open(socket) {
+        socket.write(
+          `GET /internal/wire-probe?token=${WIRE_PROBE_TOKEN} HTTP/1.1\r\n` +
+          `Host: localhost:${port}\r\n` +
+          "Upgrade: websocket\r\n" +
+          "Connection: Upgrade\r\n" +
+          `Sec-WebSocket-Key: ${Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString("base64")}\r\n` +
+          "Sec-WebSocket-Version: 13\r\n" +
+          "Sec-WebSocket-Extensions: permessage-deflate; client_max_window_bits\r\n\r\n"
+        );
       },
-    });
+      data(socket, chunk) {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        if (!upgraded) {
+          const headerEnd = buffer.indexOf("\r\n\r\n");
+          if (headerEnd === -1) return;
+          upgraded = true;
+          wireProbeReady = true;
+          buffer = buffer.subarray(headerEnd + 4);
+        }
+
+        while (buffer.length >= 2) {
+          const fin = (buffer[0]! & 0x80) !== 0;
+          const opcode = buffer[0]! & 0x0f;
+          let length = buffer[1]! & 0x7f;
+          let offset = 2;
+
+          if (length === 126) {
+            if (buffer.length < 4) return;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+          } else if (length === 127) {
+            if (buffer.length < 10) return;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+          }
+
+          if (buffer.length < offset + length) return;
+          const payload = buffer.subarray(offset, offset + length);
+          buffer = buffer.subarray(offset + length);
+
+          if (opcode === 0x9) {
+            // Answer pings (masked with an all-zero key) so the server doesn't drop the probe as idle
+            socket.write(Buffer.concat([Buffer.from([0x8a, 0x80 | payload.length, 0, 0, 0, 0]), payload]));
+            continue;
+          }
+          if (opcode >= 0x8) continue;
+
+          messageBytes += offset + length;
+          if (fin) {
+            recordWireFrame(messageBytes);
+            messageBytes = 0;
+          }
+        }
+      },
+      close() {
+        console.log("⚠️ permessage-deflate wire probe disconnected, reconnecting...");
+        wireProbeReady = false;
+        pendingWireFrames.length = 0;
+        setTimeout(() => startWireProbe(port), 1000);
+      }
+    }
+  }).catch((error) => console.error("❌ Failed to start permessage-deflate wire probe:", error));
+}
+
+// --- Delta encoding ---
+// Patch format published on /feed/delta (JSON, then compressed with the feed's codec):
+//   { kind: "snapshot", messageId, items }                    full dataset
+//   { kind: "delta", messageId, baseMessageId, length, changes }
+// `changes` is a list of [index, { field: value, ... }] pairs holding only the fields of row
+// `index` that differ from message `baseMessageId`; rows at or past the previous length are sent
+// whole, and the dataset is truncated to `length`. Broadcast frames also carry `snapshotSize`, the
+// size the full snapshot would have had with the same codec, so clients can report the gain.
+type DatasetItem = Record<string, unknown>;
+type DeltaChange = [index: number, fields: DatasetItem];
+
+type DeltaPatch =
+  | { kind: "snapshot"; messageId: number; items: DatasetItem[] }
+  | { kind: "delta"; messageId: number; baseMessageId: number; length: number; changes: DeltaChange[] };
+
+interface DeltaState {
+  messageId: number;
+  // When the tick's rows were produced; join snapshots carry it in their envelope
+  generatedAt: number;
+  items: DatasetItem[];
+}
+
+// A full snapshot is sent every DELTA_SNAPSHOT_INTERVAL messages so clients can recover
+const DELTA_SNAPSHOT_INTERVAL = 10;
+
+function diffDatasets(previous: DatasetItem[], current: DatasetItem[]): DeltaChange[] {
+  const changes: DeltaChange[] = [];
+
+  current.forEach((item, index) => {
+    const base = previous[index];
+    if (!base) {
+      changes.push([index, item]);
+      return;
+    }
+
+    const fields: DatasetItem = {};
+    let changed = false;
+    for (const [key, value] of Object.entries(item)) {
+      if (base[key] !== value) {
+        fields[key] = value;
+        changed = true;
+      }
+    }
+    if (changed) {
+      changes.push([index, fields]);
+    }
+  });
+
+  return changes;
+}
+
+function createDeltaPatch(previous: DeltaState | null, current: DeltaState): DeltaPatch {
+  if (!previous || current.messageId % DELTA_SNAPSHOT_INTERVAL === 0) {
+    return { kind: "snapshot", messageId: current.messageId, items: current.items };
+  }
+
+  return {
+    kind: "delta",
+    messageId: current.messageId,
+    baseMessageId: previous.messageId,
+    length: current.items.length,
+    changes: diffDatasets(previous.items, current.items)
+  };
+}
+
+// Patches and join snapshots are JSON compressed with the codec's default settings
+function compressDeltaMessage(codec: CompressionType, message: object, messageId: number, generatedAt: number): { result: CompressionResult; frame: Uint8Array } | null {
+  const entry = codecs.get(codec);
+  const input = Buffer.from(JSON.stringify(message));
+  const result = entry && compressBytes(codec, input);
+  if (!entry || !result) return null;
+
+  return { result, frame: wrapFrame({ messageId, generatedAt, codec, settings: defaultCodecSettings(entry), checksum: checksum(input) }, result) };
+}
+
+// --- Zstd trained dictionaries ---
+// Bun's zstd has no dictionary support, so dictionary compression goes through zstd-codec (WASM).
+// Dictionaries are raw-content dictionaries built with a simplified COVER algorithm: the sample
+// corpus is split into epochs and from each epoch the segment whose d-mers occur in the most
+// samples is kept. Raw dictionaries carry no dictID in the zstd frame, so the frame envelope carries
+// the dictionary id and clients fetch the dictionary from /dict/zstd/:id.
+interface ZstdDictionary {
+  id: number;
+  bytes: Uint8Array;
+  samples: number;
+  createdAt: number;
+  cdict: ZstdCompressionDict;
+}
+
+const ZSTD_DICTIONARY_SIZE = 16 * 1024;
+const ZSTD_DICTIONARY_LEVEL = 6;
+const ZSTD_DICTIONARY_SEGMENT = 256;
+const ZSTD_DICTIONARY_DMER = 8;
+const ZSTD_DICTIONARY_HASH_BITS = 20;
+
+// Every trained version stays available, so clients holding an older id can still decode
+const zstdDictionaries = new Map<number, ZstdDictionary>();
+let currentZstdDictionary: ZstdDictionary | null = null;
+
+const zstdCodecReady = new Promise<ZstdBinding>((resolve) => ZstdCodec.run(resolve));
+let zstdSimple: ZstdSimple | null = null;
+
+function dmerHash(bytes: Uint8Array, offset: number): number {
+  // FNV-1a over one d-mer, folded down to the frequency table size
+  let hash = 2166136261;
+  for (let i = 0; i < ZSTD_DICTIONARY_DMER; i++) {
+    hash ^= bytes[offset + i]!;
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> (32 - ZSTD_DICTIONARY_HASH_BITS);
+}
+
+function trainZstdDictionary(samples: Uint8Array[], dictionarySize: number): Uint8Array {
+  // Count in how many samples each d-mer occurs
+  const frequencies = new Uint32Array(1 << ZSTD_DICTIONARY_HASH_BITS);
+  const lastSample = new Int32Array(1 << ZSTD_DICTIONARY_HASH_BITS).fill(-1);
+  samples.forEach((sample, index) => {
+    for (let i = 0; i + ZSTD_DICTIONARY_DMER <= sample.length; i++) {
+      const hash = dmerHash(sample, i);
+      if (lastSample[hash] !== index) {
+        lastSample[hash] = index;
+        frequencies[hash]!++;
+      }
+    }
+  });
+
+  const corpus = Buffer.concat(samples);
+  const epochs = Math.max(1, Math.floor(dictionarySize / ZSTD_DICTIONARY_SEGMENT));
+  const epochSize = Math.floor(corpus.length / epochs);
+  const dmersPerSegment = ZSTD_DICTIONARY_SEGMENT - ZSTD_DICTIONARY_DMER + 1;
+  const segments: { score: number; bytes: Uint8Array }[] = [];
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const start = epoch * epochSize;
+    const end = Math.min(start + epochSize, corpus.length);
+    if (end - start < ZSTD_DICTIONARY_SEGMENT) break;
+
+    // Slide a segment-sized window over the epoch, keeping a running score
+    let score = 0;
+    for (let i = start; i < start + dmersPerSegment; i++) {
+      score += frequencies[dmerHash(corpus, i)]!;
+    }
+    let bestScore = score;
+    let bestStart = start;
+    for (let segmentStart = start + 1; segmentStart + ZSTD_DICTIONARY_SEGMENT <= end; segmentStart++) {
+      score += frequencies[dmerHash(corpus, segmentStart + dmersPerSegment - 1)]! - frequencies[dmerHash(corpus, segmentStart - 1)]!;
+      if (score > bestScore) {
+        bestScore = score;
+        bestStart = segmentStart;
+      }
+    }
+    if (bestScore === 0) continue;
+
+    // Covered d-mers don't count again, so later epochs pick different content
+    for (let i = bestStart; i < bestStart + dmersPerSegment; i++) {
+      frequencies[dmerHash(corpus, i)] = 0;
+    }
+    segments.push({ score: bestScore, bytes: corpus.subarray(bestStart, bestStart + ZSTD_DICTIONARY_SEGMENT) });
+  }
+
+  // zstd references the end of the dictionary most cheaply, so the best segments go last
+  segments.sort((a, b) => a.score - b.score);
+  const dictionary = Buffer.concat(segments.map(segment => segment.bytes));
+  return dictionary.subarray(Math.max(0, dictionary.length - dictionarySize));
+}
+
+// Dictionary ids are the first 4 bytes of the SHA-256 of their content
+async function dictionaryId(bytes: Uint8Array): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return new DataView(digest.buffer).getUint32(0);
+}
+
+async function registerZstdDictionary(bytes: Uint8Array, samples: number): Promise<ZstdDictionary> {
+  const binding = await zstdCodecReady;
+  zstdSimple ??= new binding.Simple();
+
+  const id = await dictionaryId(bytes);
+  const dictionary: ZstdDictionary = {
+    id,
+    bytes,
+    samples,
+    createdAt: Date.now(),
+    cdict: new binding.Dict.Compression(bytes, ZSTD_DICTIONARY_LEVEL)
+  };
+  zstdDictionaries.set(id, dictionary);
+  currentZstdDictionary = dictionary;
+  return dictionary;
+}
+
+function formatDictionaryId(id: number): string {
+  return id.toString(16).padStart(8, "0");
+}
+
+// The dictionary a result was compressed with goes into its frame envelope
+interface DictionaryCompressionResult extends CompressionResult {
+  dictionaryId: number;
+}
+
+// Takes the serialized tick, so the dictionary feeds compress the same bytes as every other feed
+function compressWithZstdDictionary(input: Uint8Array): DictionaryCompressionResult | null {
+  const dictionary = currentZstdDictionary;
+  if (!zstdSimple || !dictionary) return null;
+
+  try {
+    const startTime = performance.now();
+    const compressedBuffer = zstdSimple.compressUsingDict(input, dictionary.cdict);
+    const compressMs = performance.now() - startTime;
+    if (!compressedBuffer) return null;
 
     return {
-      compressed: compressedBuffer.toString("base64"),
-      originalSize: originalBuffer.length,
-      compressedSize: compressedBuffer.length
+      compressed: compressedBuffer,
+      originalSize: input.length,
+      compressedSize: compressedBuffer.length,
+      compressMs,
+      dictionaryId: dictionary.id
     };
   } catch {
     return null;
   }
 }
 
-function compressWithZstd(data: unknown): { compressed: string; originalSize: number; compressedSize: number } | null {
+// --- Brotli shared dictionary ---
+// Neither Bun's nor Node's zlib can attach a custom dictionary to the Brotli encoder, so the
+// dictionary is used as a window prefix instead: a fresh streaming compressor is fed the
+// dictionary and flushed, which yields a fixed "primer", and the tick is compressed right after
+// it so it can reference the dictionary. Only the part after the primer goes on the wire. Clients
+// prime a fresh decoder with the same bytes (/dict/brotli/:id/primer) before decoding each frame.
+// zlib cannot copy an encoder's state, so every tick re-encodes the primer on a new stream; that
+// time is measured apart from the payload's (brotli_dictionary_primer_seconds).
+// The settings are fixed like ZSTD_DICTIONARY_LEVEL rather than shared with streaming.brotli: the
+// window has to hold the dictionary and a whole tick.
+const BROTLI_DICTIONARY_SETTINGS: CodecSettings = { level: 10, window: 22 };
+
+interface BrotliDictionary {
+  id: number;
+  bytes: Uint8Array;
+  primer: Uint8Array;
+}
+
+let brotliDictionary: BrotliDictionary | null = null;
+
+interface BrotliDictionaryCompressionResult extends DictionaryCompressionResult {
+  // Re-encoding the primer, which compressMs leaves out
+  primerMs: number;
+}
+
+async function createBrotliDictionary(bytes: Uint8Array): Promise<BrotliDictionary> {
+  const compressor = createStreamingCompressor("brotli", BROTLI_DICTIONARY_SETTINGS);
   try {
-    const jsonString = JSON.stringify(data);
-    const originalBuffer = Buffer.from(jsonString);
+    const primer = await compressor.compress(bytes);
+    return { id: await dictionaryId(bytes), bytes, primer };
+  } finally {
+    compressor.close();
+  }
+}
+
+async function compressWithBrotliDictionary(input: Uint8Array): Promise<BrotliDictionaryCompressionResult | null> {
+  const dictionary = brotliDictionary;
+  if (!dictionary) return null;
 
-    // Bun's native Zstd compression with level 6 (balanced speed/compression for streaming)
-    // Level 1-3: Fast, lower compression
-    // Level 6-9: Balanced (recommended for streaming)
-    // Level 10+: High compression, slower
-    const compressedBuffer = Bun.zstdCompressSync(originalBuffer, { level: 6 });
+  const compressor = createStreamingCompressor("brotli", BROTLI_DICTIONARY_SETTINGS);
+  try {
+    // Reproduces dictionary.primer; the encoder is deterministic for the same input and params
+    const primerStartTime = performance.now();
+    await compressor.compress(dictionary.bytes);
+    const startTime = performance.now();
+    const compressedBuffer = await compressor.compress(input);
+    const compressMs = performance.now() - startTime;
 
     return {
-      compressed: compressedBuffer.toString("base64"),
-      originalSize: originalBuffer.length,
-      compressedSize: compressedBuffer.length
+      compressed: compressedBuffer,
+      originalSize: input.length,
+      compressedSize: compressedBuffer.length,
+      compressMs,
+      primerMs: startTime - primerStartTime,
+      dictionaryId: dictionary.id
     };
   } catch {
     return null;
+  } finally {
+    compressor.close();
   }
 }
 
-function noCompression(data: unknown): { compressed: string; originalSize: number; compressedSize: number } {
-  const jsonString = JSON.stringify(data);
-  const size = Buffer.from(jsonString).length;
+// --- Compression mode (inline or worker pool) ---
+// compression.workers=<n> compresses every tick on a pool of n Bun workers instead of the main thread.
+// tick.overrunPolicy decides what a tick does while the previous tick is still compressing:
+//   skip   - drop the new tick (default)
+//   queue  - compress it after the previous one
+//   cancel - abandon the previous tick's remaining compressions and start the new one
+const COMPRESSION_WORKERS = serverConfig.compression.workers;
+const TICK_OVERRUN_POLICY = serverConfig.tick.overrunPolicy;
+const compressionPool = COMPRESSION_WORKERS > 0 ? createCompressionPool(COMPRESSION_WORKERS) : null;
+const compressionMode = compressionPool ? "workers" : "inline";
 
-  return {
-    compressed: jsonString,
-    originalSize: size,
-    compressedSize: size
-  };
+// Compresses a serialized tick; inline mode runs the codec right away on the main thread
+function compressTick(codec: CompressionType, settings: CodecSettings, input: Uint8Array): Promise<CompressionResult | null> {
+  return compressionPool ? compressionPool.compress(codec, settings, input) : Promise.resolve(compressBytes(codec, input, settings));
+}
+
+// --- Data source ---
+// dataSource picks where each message's rows come from:
+//   generator - the synthetic PriceData dataset (dataset.size items every dataset.intervalMs)
+//   ndjson    - replay of replay.file, one JSON object per line
+//   csv       - replay of replay.file, a header row then one record per line
+// Replays are paced by the records' replay.timestampField at replay.speed, batched into messages of
+// replay.batchSize records or replay.batchWindowMs of recorded time, and start over at the end
+// unless replay.loop is false.
+const DATASET_SIZE = serverConfig.dataset.size;
+
+async function createDataSource(): Promise<DataSource> {
+  const { dataSource, replay } = serverConfig;
+  if (dataSource === "generator" || !replay.file) {
+    return createGeneratorSource(DATASET_SIZE, serverConfig.dataset.intervalMs);
+  }
+
+  try {
+    return await createReplaySource({
+      format: dataSource,
+      path: replay.file,
+      speed: replay.speed,
+      loop: replay.loop,
+      batchSize: replay.batchSize,
+      windowMs: replay.batchSize ? undefined : replay.batchWindowMs,
+      timestampField: replay.timestampField,
+      textColumns: replay.textColumns
+    });
+  } catch (error) {
+    console.error(`❌ Cannot replay ${replay.file}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+const dataSource = await createDataSource();
+
+// --- Prometheus metrics (GET /metrics) ---
+// Compression time covers the encoder only (not JSON serialization) and is labelled with the codec
+// and the feed it was published on, e.g. feed="brotli-l10-w15" for the default Brotli quality 10.
+// Row filters are up to the clients, so a filtered configuration is labelled with its unfiltered key
+// and filtered="true" rather than getting series of its own that would outlive it.
+const DURATION_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+const EVENT_LOOP_PROBE_MS = 500;
+
+const compressionSeconds = createHistogram("compression_duration_seconds", "Time spent compressing one message, by codec, feed and whether it is filtered", DURATION_BUCKETS);
+const compressionInputBytes = createCounter("compression_input_bytes_total", "Uncompressed bytes passed to the encoders, by codec");
+const compressionOutputBytes = createCounter("compression_output_bytes_total", "Compressed bytes produced by the encoders, by codec");
+const tickSeconds = createHistogram("broadcast_tick_duration_seconds", "Main-thread time of one broadcast tick, by compression mode", DURATION_BUCKETS);
+const tickCompletionSeconds = createHistogram("broadcast_tick_completion_seconds", "Time from the start of a tick until all of its compressions finished, by compression mode", DURATION_BUCKETS);
+const tickOverruns = createCounter("broadcast_tick_overruns_total", "Ticks that started while the previous tick was still compressing, by policy");
+const brotliDictionaryPrimerSeconds = createHistogram("brotli_dictionary_primer_seconds", "Time spent re-encoding the Brotli dictionary primer before each brotli-dict message", DURATION_BUCKETS);
+const publishSeconds = createHistogram("publish_duration_seconds", "Time spent in publish() fanning one frame out to the subscribers of a feed, by feed and whether it is filtered", DURATION_BUCKETS);
+const eventLoopLagSeconds = createHistogram("event_loop_lag_seconds", `How late a ${EVENT_LOOP_PROBE_MS}ms timer fires, by compression mode`, DURATION_BUCKETS);
+
+createGauge("compression_workers", "Size of the compression worker pool (0 in inline mode)", () =>
+  [{ labels: {}, value: COMPRESSION_WORKERS }]);
+
+createGauge("compression_pool_pending_jobs", "Compressions queued or running on the worker pool", () =>
+  [{ labels: {}, value: compressionPool?.pending() ?? 0 }]);
+
+const backpressureActions = createCounter("backpressure_actions_total", "Slow subscribers and what the backpressure policy did about them (slow, park, drop, resume, downgrade, restore, disconnect), by route");
+const resyncRequests = createCounter("resync_requests_total", "Resync requests, by route and result (current, replayed, snapshot, refused)");
+const subscriberSends = createCounter("subscriber_sends_total", "Frames sent to a single subscriber (not published), by route and result (sent, backpressure, dropped)");
+
+createGauge("feed_subscribers", "Current subscribers per feed topic", () =>
+  [...topicSubscribers].map(([topic, members]) => ({ labels: { topic }, value: members.size })));
+
+createGauge("subscriber_buffered_bytes", "Bytes queued on the subscribers' sockets, by route", () => {
+  const buffered = new Map<string, number>();
+  for (const subscriber of subscribers.values()) {
+    buffered.set(subscriber.route, (buffered.get(subscriber.route) ?? 0) + subscriber.socket.getBufferedAmount());
+  }
+  return [...buffered].map(([route, value]) => ({ labels: { route }, value }));
+});
+
+createGauge("slow_subscribers", "Subscribers currently over the backpressure limit, held back or downgraded, by route", () => {
+  const slow = new Map<string, number>();
+  for (const subscriber of subscribers.values()) {
+    if (subscriber.slowSince === null) continue;
+    slow.set(subscriber.route, (slow.get(subscriber.route) ?? 0) + 1);
+  }
+  return [...slow].map(([route, value]) => ({ labels: { route }, value }));
+});
+
+createGauge("streaming_subscribers", "Current streaming context subscribers, by codec", () => {
+  const counts = new Map<StreamingCodec, number>();
+  for (const subscriber of streamingSubscribers.values()) {
+    counts.set(subscriber.codec, (counts.get(subscriber.codec) ?? 0) + 1);
+  }
+  return [...counts].map(([codec, count]) => ({ labels: { codec }, value: count }));
+});
+
+// Process usage, for load tests (see loadtest.ts)
+createCounterFunction("process_cpu_seconds_total", "User and system CPU time of the server process", () => {
+  const { user, system } = process.cpuUsage();
+  return [{ labels: {}, value: (user + system) / 1e6 }];
+});
+
+createGauge("process_resident_memory_bytes", "Resident set size of the server process", () =>
+  [{ labels: {}, value: process.memoryUsage().rss }]);
+
+type FeedMetricLabels = { feed: string; filtered: "true" | "false" };
+
+function feedMetricLabels(feed: string, filtered = false): FeedMetricLabels {
+  return { feed, filtered: filtered ? "true" : "false" };
 }
 
+function configMetricLabels({ codec, settings, format, layout, filter }: Omit<FeedConfig, "key">): FeedMetricLabels {
+  return feedMetricLabels(formatConfigKey(codec, settings, format, layout), isFiltered(filter));
+}
+
+function recordCompression(codec: CompressionType, labels: FeedMetricLabels, result: Pick<CompressionResult, "originalSize" | "compressedSize" | "compressMs">) {
+  compressionSeconds.observe({ codec, ...labels }, result.compressMs / 1000);
+  compressionInputBytes.inc({ codec }, result.originalSize);
+  compressionOutputBytes.inc({ codec }, result.compressedSize);
+}
+
+// Event-loop lag: a timer that fires late means the loop was busy (e.g. compressing) when it was due
+let eventLoopProbeDue = performance.now() + EVENT_LOOP_PROBE_MS;
+setInterval(() => {
+  const now = performance.now();
+  eventLoopLagSeconds.observe({ mode: compressionMode }, Math.max(now - eventLoopProbeDue, 0) / 1000);
+  eventLoopProbeDue = now + EVENT_LOOP_PROBE_MS;
+}, EVENT_LOOP_PROBE_MS);
+
 // --- HTML Frontend ---
 const htmlPage = `
 <!DOCTYPE html>
@@ -94,6 +1335,7 @@ const htmlPage = `
   <meta charset="UTF-8" />
   <meta name="viewport" content="width=device-width, initial-scale=1.0" />
   <title>🚀 Compression Comparison: Brotli vs Gzip vs None</title>
+  ${decoderImportMap()}
   <style>
     * {
       margin: 0;
@@ -179,6 +1421,15 @@ const htmlPage = `
       box-shadow: 0 0 0 3px rgba(102, 126, 234, 0.1);
     }
     
+    .transport-select {
+      padding: 0.5rem 1rem;
+      border: 2px solid #ddd;
+      border-radius: 8px;
+      background: white;
+      font-size: 0.9rem;
+      font-family: inherit;
+    }
+    
     .compression-select option {
       padding: 0.5rem;
       font-size: 0.9rem;
@@ -237,10 +1488,13 @@ const htmlPage = `
       border-left: 4px solid;
     }
     
-    .stat-card.none { border-left-color: #ff6b6b; }
-    .stat-card.gzip { border-left-color: #4ecdc4; }
-    .stat-card.brotli { border-left-color: #45b7d1; }
-    .stat-card.zstd { border-left-color: #f39c12; }
+    .stat-card.gzip-stream { border-left-color: #2a9d8f; }
+    .stat-card.brotli-stream { border-left-color: #2c7da0; }
+    .stat-card.zstd-stream { border-left-color: #d35400; }
+    .stat-card.permessage-deflate { border-left-color: #8e44ad; }
+    .stat-card.delta { border-left-color: #27ae60; }
+    .stat-card.zstd-dict { border-left-color: #c0392b; }
+    .stat-card.brotli-dict { border-left-color: #1a5276; }
     
     .stat-title {
       font-size: 1.2rem;
@@ -262,6 +1516,15 @@ const htmlPage = `
       color: #333;
     }
     
+    .stat-number.has-errors {
+      color: #c0392b;
+    }
+    
+    /* The last message of this feed failed to decode */
+    .stat-card.decode-error {
+      background: #fdf2f1;
+    }
+    
     .feeds {
       display: grid;
       grid-template-columns: repeat(auto-fit, minmax(400px, 1fr));
@@ -284,10 +1547,13 @@ const htmlPage = `
       letter-spacing: 1px;
     }
     
-    .feed-header.none { background: linear-gradient(135deg, #ff6b6b, #ee5a52); }
-    .feed-header.gzip { background: linear-gradient(135deg, #4ecdc4, #44b3a6); }
-    .feed-header.brotli { background: linear-gradient(135deg, #45b7d1, #3a9cc1); }
-    .feed-header.zstd { background: linear-gradient(135deg, #f39c12, #e67e22); }
+    .feed-header.gzip-stream { background: linear-gradient(135deg, #2a9d8f, #21867a); }
+    .feed-header.brotli-stream { background: linear-gradient(135deg, #2c7da0, #246a88); }
+    .feed-header.zstd-stream { background: linear-gradient(135deg, #d35400, #ba4a00); }
+    .feed-header.permessage-deflate { background: linear-gradient(135deg, #8e44ad, #7d3c98); }
+    .feed-header.delta { background: linear-gradient(135deg, #27ae60, #229954); }
+    .feed-header.zstd-dict { background: linear-gradient(135deg, #c0392b, #a93226); }
+    .feed-header.brotli-dict { background: linear-gradient(135deg, #1a5276, #154360); }
     
     .feed-content {
       height: 300px;
@@ -325,6 +1591,30 @@ const htmlPage = `
       border-radius: 4px;
     }
     
+    .feed-error {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 0.5rem;
+      margin-bottom: 0.5rem;
+      padding: 0.4rem 0.6rem;
+      border-radius: 6px;
+      background: #fdf2f1;
+      color: #c0392b;
+      font-size: 0.8rem;
+    }
+    
+    .frame-download {
+      flex-shrink: 0;
+      border: 1px solid #c0392b;
+      border-radius: 4px;
+      background: white;
+      color: #c0392b;
+      font-size: 0.75rem;
+      padding: 0.15rem 0.4rem;
+      cursor: pointer;
+    }
+    
     .connection-status {
       position: fixed;
       top: 20px;
@@ -408,6 +1698,53 @@ const htmlPage = `
       height: 400px;
       width: 100%;
     }
+    
+    .matrix-controls {
+      display: flex;
+      align-items: center;
+      gap: 1rem;
+      flex-wrap: wrap;
+      margin-bottom: 1rem;
+    }
+    
+    .matrix-wrapper {
+      overflow-x: auto;
+    }
+    
+    .matrix-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.85rem;
+    }
+    
+    .matrix-table th,
+    .matrix-table td {
+      padding: 0.5rem;
+      border: 1px solid #eee;
+      text-align: center;
+    }
+    
+    .matrix-table th {
+      background: #f8f9fa;
+    }
+    
+    .matrix-table td.best-size {
+      background: #e8f8f5;
+      font-weight: 700;
+    }
+    
+    .matrix-table td.best-time {
+      box-shadow: inset 0 0 0 2px #45b7d1;
+    }
+    
+    .matrix-cell-detail {
+      color: #666;
+      font-size: 0.75rem;
+    }
+    
+    .matrix-table td.matrix-error {
+      color: #c0392b;
+    }
   </style>
 </head>
 <body>
@@ -422,133 +1759,354 @@ const htmlPage = `
       <div class="control-group">
         <label for="compressionSelect" class="control-label">📊 Select Compression Methods:</label>
         <select id="compressionSelect" class="compression-select" multiple>
-          <option value="none" selected>📊 No Compression</option>
-          <option value="gzip" selected>🗜️ Gzip</option>
-          <option value="brotli" selected>⚡ Brotli</option>
-          <option value="zstd" selected>🔥 Zstd</option>
+          <option value="gzip-stream">🗜️ Gzip (streaming context)</option>
+          <option value="brotli-stream">⚡ Brotli (streaming context)</option>
+          <option value="zstd-stream">🔥 Zstd (streaming context)</option>
+          <option value="permessage-deflate" selected>🌐 permessage-deflate</option>
+          <option value="delta">🧩 Delta patches</option>
+          <option value="zstd-dict">📚 Zstd + trained dictionary</option>
+          <option value="brotli-dict">📘 Brotli + shared dictionary</option>
         </select>
         <div class="select-helper">Hold Ctrl/Cmd to select multiple</div>
       </div>
+      <div class="control-group">
+        <label for="transportSelect" class="control-label">📦 Transport:</label>
+        <select id="transportSelect" class="transport-select">
+          <option value="binary" selected>Binary frames (exact bytes)</option>
+          <option value="base64">Base64 text (legacy)</option>
+        </select>
+        <label for="formatSelect" class="control-label">🧬 Serialization:</label>
+        <select id="formatSelect" class="transport-select">
+        </select>
+        <label for="layoutSelect" class="control-label">🧮 Layout:</label>
+        <select id="layoutSelect" class="transport-select">
+          <option value="rows" selected>Rows (array of objects)</option>
+          <option value="columns">Columns (struct of arrays)</option>
+        </select>
+        <label for="deltaCodecSelect" class="control-label">🧩 Delta Codec:</label>
+        <select id="deltaCodecSelect" class="transport-select">
+        </select>
+      </div>
+      <div class="control-group">
+        <label for="levelInput" class="control-label">🎚️ Level:</label>
+        <input id="levelInput" class="transport-select" type="number" placeholder="default">
+        <label for="windowInput" class="control-label">🪟 Window (log2):</label>
+        <input id="windowInput" class="transport-select" type="number" placeholder="default">
+        <div class="select-helper">Applies to codecs that take a level/window</div>
+      </div>
+      <div class="control-group">
+        <label for="symbolsInput" class="control-label">🔎 Symbols:</label>
+        <input id="symbolsInput" class="transport-select" type="text" placeholder="all, e.g. BTC/USD,ETH/USD">
+        <label for="exchangeInput" class="control-label">🏦 Exchange:</label>
+        <input id="exchangeInput" class="transport-select" type="text" placeholder="all, e.g. kraken">
+        <div class="select-helper">Filters the rows of the codec feeds (comma-separated)</div>
+      </div>
       <div class="control-group">
         <button id="startBtn" class="btn btn-start">🎯 Start Streaming</button>
         <button id="stopBtn" class="btn btn-stop">⏹️ Stop Streaming</button>
         <button id="clearBtn" class="btn btn-clear">🧹 Clear Data</button>
       </div>
-    </div>
-    
-    <div class="stats">
-      <div class="stat-card none">
-        <div class="stat-title">📊 No Compression</div>
+    </div>
+    
+    <div class="stats">
+      <div class="stat-card gzip-stream">
+        <div class="stat-title">🗜️ Gzip Streaming Context</div>
+        <div class="stat-value">
+          <span>Messages:</span>
+          <span class="stat-number" id="gzip-stream-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="gzip-stream-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="gzip-stream-sequence">0 / 0</span>
+        </div>
+        <div class="stat-value">
+          <span>Total Bytes:</span>
+          <span class="stat-number" id="gzip-stream-bytes">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Size:</span>
+          <span class="stat-number" id="gzip-stream-avg">0 B</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Time:</span>
+          <span class="stat-number" id="gzip-stream-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="gzip-stream-server-time">-</span>
+        </div>
+        <div class="stat-value">
+          <span>Savings:</span>
+          <span class="stat-number" id="gzip-stream-savings">0%</span>
+        </div>
+      </div>
+      
+      <div class="stat-card brotli-stream">
+        <div class="stat-title">⚡ Brotli Streaming Context</div>
+        <div class="stat-value">
+          <span>Messages:</span>
+          <span class="stat-number" id="brotli-stream-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="brotli-stream-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="brotli-stream-sequence">0 / 0</span>
+        </div>
+        <div class="stat-value">
+          <span>Total Bytes:</span>
+          <span class="stat-number" id="brotli-stream-bytes">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Size:</span>
+          <span class="stat-number" id="brotli-stream-avg">0 B</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Time:</span>
+          <span class="stat-number" id="brotli-stream-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="brotli-stream-server-time">-</span>
+        </div>
+        <div class="stat-value">
+          <span>Savings:</span>
+          <span class="stat-number" id="brotli-stream-savings">0%</span>
+        </div>
+      </div>
+      
+      <div class="stat-card zstd-stream">
+        <div class="stat-title">🔥 Zstd Streaming Context</div>
         <div class="stat-value">
           <span>Messages:</span>
-          <span class="stat-number" id="none-messages">0</span>
+          <span class="stat-number" id="zstd-stream-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="zstd-stream-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="zstd-stream-sequence">0 / 0</span>
         </div>
         <div class="stat-value">
           <span>Total Bytes:</span>
-          <span class="stat-number" id="none-bytes">0</span>
+          <span class="stat-number" id="zstd-stream-bytes">0</span>
         </div>
         <div class="stat-value">
           <span>Avg Size:</span>
-          <span class="stat-number" id="none-avg">0 B</span>
+          <span class="stat-number" id="zstd-stream-avg">0 B</span>
         </div>
         <div class="stat-value">
           <span>Avg Time:</span>
-          <span class="stat-number" id="none-time">0 ms</span>
+          <span class="stat-number" id="zstd-stream-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="zstd-stream-server-time">-</span>
+        </div>
+        <div class="stat-value">
+          <span>Savings:</span>
+          <span class="stat-number" id="zstd-stream-savings">0%</span>
+        </div>
+      </div>
+      
+      <div class="stat-card permessage-deflate">
+        <div class="stat-title">🌐 permessage-deflate</div>
+        <div class="stat-value">
+          <span>Messages:</span>
+          <span class="stat-number" id="permessage-deflate-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="permessage-deflate-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="permessage-deflate-sequence">0 / 0</span>
+        </div>
+        <div class="stat-value">
+          <span>Wire Bytes:</span>
+          <span class="stat-number" id="permessage-deflate-bytes">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Size:</span>
+          <span class="stat-number" id="permessage-deflate-avg">0 B</span>
+        </div>
+        <div class="stat-value">
+          <span>Avg Parse Time:</span>
+          <span class="stat-number" id="permessage-deflate-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="permessage-deflate-server-time">-</span>
+        </div>
+        <div class="stat-value">
+          <span>Savings:</span>
+          <span class="stat-number" id="permessage-deflate-savings">0%</span>
         </div>
       </div>
       
-      <div class="stat-card gzip">
-        <div class="stat-title">🗜️ Gzip Compression</div>
+      <div class="stat-card delta">
+        <div class="stat-title">🧩 Delta Patches</div>
         <div class="stat-value">
           <span>Messages:</span>
-          <span class="stat-number" id="gzip-messages">0</span>
+          <span class="stat-number" id="delta-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="delta-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="delta-sequence">0 / 0</span>
         </div>
         <div class="stat-value">
           <span>Total Bytes:</span>
-          <span class="stat-number" id="gzip-bytes">0</span>
+          <span class="stat-number" id="delta-bytes">0</span>
         </div>
         <div class="stat-value">
           <span>Avg Size:</span>
-          <span class="stat-number" id="gzip-avg">0 B</span>
+          <span class="stat-number" id="delta-avg">0 B</span>
+        </div>
+        <div class="stat-value">
+          <span>Full Snapshot Avg:</span>
+          <span class="stat-number" id="delta-snapshot-avg">0 B</span>
         </div>
         <div class="stat-value">
           <span>Avg Time:</span>
-          <span class="stat-number" id="gzip-time">0 ms</span>
+          <span class="stat-number" id="delta-time">0 ms</span>
         </div>
         <div class="stat-value">
-          <span>Savings:</span>
-          <span class="stat-number" id="gzip-savings">0%</span>
+          <span>Server Time:</span>
+          <span class="stat-number" id="delta-server-time">-</span>
+        </div>
+        <div class="stat-value">
+          <span>Savings vs Snapshot:</span>
+          <span class="stat-number" id="delta-savings">0%</span>
         </div>
       </div>
       
-      <div class="stat-card brotli">
-        <div class="stat-title">⚡ Brotli Compression</div>
+      <div class="stat-card zstd-dict">
+        <div class="stat-title">📚 Zstd + Dictionary</div>
         <div class="stat-value">
           <span>Messages:</span>
-          <span class="stat-number" id="brotli-messages">0</span>
+          <span class="stat-number" id="zstd-dict-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="zstd-dict-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="zstd-dict-sequence">0 / 0</span>
         </div>
         <div class="stat-value">
           <span>Total Bytes:</span>
-          <span class="stat-number" id="brotli-bytes">0</span>
+          <span class="stat-number" id="zstd-dict-bytes">0</span>
         </div>
         <div class="stat-value">
           <span>Avg Size:</span>
-          <span class="stat-number" id="brotli-avg">0 B</span>
+          <span class="stat-number" id="zstd-dict-avg">0 B</span>
         </div>
         <div class="stat-value">
           <span>Avg Time:</span>
-          <span class="stat-number" id="brotli-time">0 ms</span>
+          <span class="stat-number" id="zstd-dict-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="zstd-dict-server-time">-</span>
         </div>
         <div class="stat-value">
           <span>Savings:</span>
-          <span class="stat-number" id="brotli-savings">0%</span>
+          <span class="stat-number" id="zstd-dict-savings">0%</span>
+        </div>
+        <div class="stat-value">
+          <span>Dictionary:</span>
+          <span class="stat-number" id="zstd-dict-id">-</span>
         </div>
-      </div>
       
-      <div class="stat-card zstd">
-        <div class="stat-title">🔥 Zstd Compression</div>
+      <div class="stat-card brotli-dict">
+        <div class="stat-title">📘 Brotli + Dictionary</div>
         <div class="stat-value">
           <span>Messages:</span>
-          <span class="stat-number" id="zstd-messages">0</span>
+          <span class="stat-number" id="brotli-dict-messages">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Errors:</span>
+          <span class="stat-number" id="brotli-dict-errors">0</span>
+        </div>
+        <div class="stat-value">
+          <span>Gaps / Resyncs:</span>
+          <span class="stat-number" id="brotli-dict-sequence">0 / 0</span>
         </div>
         <div class="stat-value">
           <span>Total Bytes:</span>
-          <span class="stat-number" id="zstd-bytes">0</span>
+          <span class="stat-number" id="brotli-dict-bytes">0</span>
         </div>
         <div class="stat-value">
           <span>Avg Size:</span>
-          <span class="stat-number" id="zstd-avg">0 B</span>
+          <span class="stat-number" id="brotli-dict-avg">0 B</span>
         </div>
         <div class="stat-value">
           <span>Avg Time:</span>
-          <span class="stat-number" id="zstd-time">0 ms</span>
+          <span class="stat-number" id="brotli-dict-time">0 ms</span>
+        </div>
+        <div class="stat-value">
+          <span>Server Time:</span>
+          <span class="stat-number" id="brotli-dict-server-time">-</span>
         </div>
         <div class="stat-value">
           <span>Savings:</span>
-          <span class="stat-number" id="zstd-savings">0%</span>
+          <span class="stat-number" id="brotli-dict-savings">0%</span>
+        </div>
+        <div class="stat-value">
+          <span>Dictionary:</span>
+          <span class="stat-number" id="brotli-dict-id">-</span>
         </div>
       </div>
     </div>
     
     <div class="feeds">
       <div class="feed-container">
-        <div class="feed-header none">📊 No Compression Feed</div>
-        <div class="feed-content" id="none-feed">Waiting for data...</div>
+        <div class="feed-header gzip-stream">🗜️ Gzip Streaming Context Feed</div>
+        <div class="feed-content" id="gzip-stream-feed">Waiting for data...</div>
+      </div>
+      
+      <div class="feed-container">
+        <div class="feed-header brotli-stream">⚡ Brotli Streaming Context Feed</div>
+        <div class="feed-content" id="brotli-stream-feed">Waiting for data...</div>
+      </div>
+      
+      <div class="feed-container">
+        <div class="feed-header zstd-stream">🔥 Zstd Streaming Context Feed</div>
+        <div class="feed-content" id="zstd-stream-feed">Waiting for data...</div>
+      </div>
+      
+      <div class="feed-container">
+        <div class="feed-header permessage-deflate">🌐 permessage-deflate Feed</div>
+        <div class="feed-content" id="permessage-deflate-feed">Waiting for data...</div>
       </div>
       
       <div class="feed-container">
-        <div class="feed-header gzip">🗜️ Gzip Feed</div>
-        <div class="feed-content" id="gzip-feed">Waiting for data...</div>
+        <div class="feed-header delta">🧩 Delta Feed</div>
+        <div class="feed-content" id="delta-feed">Waiting for data...</div>
       </div>
       
       <div class="feed-container">
-        <div class="feed-header brotli">⚡ Brotli Feed</div>
-        <div class="feed-content" id="brotli-feed">Waiting for data...</div>
+        <div class="feed-header zstd-dict">📚 Zstd + Dictionary Feed</div>
+        <div class="feed-content" id="zstd-dict-feed">Waiting for data...</div>
       </div>
       
       <div class="feed-container">
-        <div class="feed-header zstd">🔥 Zstd Feed</div>
-        <div class="feed-content" id="zstd-feed">Waiting for data...</div>
+        <div class="feed-header brotli-dict">📘 Brotli + Dictionary Feed</div>
+        <div class="feed-content" id="brotli-dict-feed">Waiting for data...</div>
       </div>
     </div>
     
@@ -580,36 +2138,94 @@ const htmlPage = `
         <canvas id="compressionChart" width="800" height="400"></canvas>
       </div>
     </div>
+    
+    <div class="chart-container">
+      <div class="chart-title">📐 Serialization × Layout × Codec Matrix</div>
+      <div class="matrix-controls">
+        <button id="matrixBtn" class="btn btn-start">📐 Measure Matrix</button>
+        <span class="select-helper">Average of 3 messages per cell: compressed bytes (and ratio to uncompressed JSON rows), decode time in this browser (decompress + deserialize + columns to rows)</span>
+      </div>
+      <div class="matrix-wrapper">
+        <table id="matrixTable" class="matrix-table"></table>
+      </div>
+    </div>
+    
+    <div class="chart-container">
+      <div class="chart-title">⏱️ End-to-End Latency</div>
+      <div class="matrix-controls">
+        <span class="select-helper" id="clockStatus">🕰️ Clock not synced yet</span>
+        <span class="select-helper">Generated on the server → decoded in this browser, over the last 500 frames of each feed; stage medians: server (generate → send), network (send → receive), decode (receive → decoded)</span>
+      </div>
+      <div class="matrix-wrapper">
+        <table id="latencyTable" class="matrix-table"></table>
+      </div>
+    </div>
   </div>
   
   <div class="connection-status disconnected" id="status">
     🔴 Disconnected
   </div>
 
-  <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
+  ${chartScriptTag()}
   <script type="module">
+    // Settings resolved by the server configuration (config.ts)
+    const FEED_URL = ${JSON.stringify(feedBaseUrl).replace(/</g, "\\u003c")};
+    const WASM_DECODERS = ${JSON.stringify(wasmDecoders.assets).replace(/</g, "\\u003c")};
+    const CHART_SCRIPT = ${JSON.stringify(wasmDecoders.chart).replace(/</g, "\\u003c")};
+    
     // WebSocket connections for different compression types
+    // (entries for registry codecs are added by loadCodecs)
     const connections = {
-      none: null,
-      gzip: null,
-      brotli: null,
-      zstd: null
+      'gzip-stream': null,
+      'brotli-stream': null,
+      'zstd-stream': null,
+      'permessage-deflate': null,
+      delta: null,
+      'zstd-dict': null,
+      'brotli-dict': null
     };
     
     // Statistics tracking
     const stats = {
-      none: { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [] },
-      gzip: { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [] },
-      brotli: { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [] },
-      zstd: { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [] }
+      'gzip-stream': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      'brotli-stream': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      'zstd-stream': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      'permessage-deflate': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      delta: { messages: 0, totalBytes: 0, totalOriginalBytes: 0, totalSnapshotBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      'zstd-dict': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null },
+      'brotli-dict': { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null }
     };
     
     let startTime = null;
     let uptimeInterval = null;
     
+    // Chart label and colour of every feed type (entries for registry codecs are added by loadCodecs)
+    const typeNames = {
+      'gzip-stream': 'Gzip Stream',
+      'brotli-stream': 'Brotli Stream',
+      'zstd-stream': 'Zstd Stream',
+      'permessage-deflate': 'permessage-deflate',
+      'delta': 'Delta',
+      'zstd-dict': 'Zstd + Dict',
+      'brotli-dict': 'Brotli + Dict'
+    };
+    
+    const typeColors = {
+      'gzip-stream': 'rgba(42, 157, 143, 0.8)',
+      'brotli-stream': 'rgba(44, 125, 160, 0.8)',
+      'zstd-stream': 'rgba(211, 84, 0, 0.8)',
+      'permessage-deflate': 'rgba(142, 68, 173, 0.8)',
+      'delta': 'rgba(39, 174, 96, 0.8)',
+      'zstd-dict': 'rgba(192, 57, 43, 0.8)',
+      'brotli-dict': 'rgba(26, 82, 118, 0.8)'
+    };
+    
+    // Feed types currently shown in the chart
+    const chartTypes = () => compressionChart.data.labels.map(label => Object.keys(typeNames).find(type => typeNames[type] === label));
+    
     // Chart setup
     const ctx = document.getElementById('compressionChart').getContext('2d');
-    const compressionChart = new Chart(ctx, {
+    const chartConfig = {
       type: 'bar',
       data: {
         labels: ['No Compression', 'Gzip', 'Brotli', 'Zstd'],
@@ -725,18 +2341,38 @@ const htmlPage = `
           }
         }
       }
-    });
+    };
+    
+    // Without Chart.js (the server's copy failed and there is no CDN fallback, or that failed too) the
+    // chart is a stand-in holding the same data, so the stats, feeds and tables keep working
+    let compressionChart = window.Chart ? new Chart(ctx, chartConfig) : { data: chartConfig.data, update() {} };
+    if (!window.Chart) {
+      const chartTitle = document.querySelector('.chart-title');
+      const showChartUnavailable = () => {
+        console.warn('⚠️ Chart.js could not be loaded; the compression chart is disabled');
+        chartTitle.textContent += ' (chart unavailable)';
+      };
+      if (CHART_SCRIPT.cdn) {
+        const script = document.createElement('script');
+        script.src = CHART_SCRIPT.cdn.src;
+        if (CHART_SCRIPT.cdn.integrity) {
+          script.integrity = CHART_SCRIPT.cdn.integrity;
+          script.crossOrigin = 'anonymous';
+        }
+        script.onload = () => {
+          console.log('✅ Chart.js loaded (CDN)');
+          compressionChart = new Chart(ctx, { ...chartConfig, data: compressionChart.data });
+        };
+        script.onerror = showChartUnavailable;
+        document.head.appendChild(script);
+      } else {
+        showChartUnavailable();
+      }
+    }
     
     const updateChart = () => {
       // Get current chart labels (selected types)
-      const currentTypes = compressionChart.data.labels.map(label => {
-        return {
-          'No Compression': 'none',
-          'Gzip': 'gzip',
-          'Brotli': 'brotli',
-          'Zstd': 'zstd'
-        }[label];
-      });
+      const currentTypes = chartTypes();
       
       if (currentTypes.length === 0) return;
       
@@ -796,19 +2432,39 @@ const htmlPage = `
     let zstd;
 
     
+    // Loads a decoder from this server, then from the CDN if the fallback is configured. With an
+    // integrity hash the binary is fetched and checked here and handed to the module, rather than
+    // letting the module fetch it unchecked.
+    const loadWasmDecoder = async (name, instantiate) => {
+      const { local, cdn } = WASM_DECODERS[name];
+      for (const location of [local, cdn]) {
+        if (!location) continue;
+        try {
+          const module = await import(location.module);
+          const wasm = location.integrity
+            ? await fetch(location.wasm, { integrity: location.integrity }).then(response => {
+                if (!response.ok) throw new Error(\`\${location.wasm} returned HTTP \${response.status}\`);
+                return response.arrayBuffer();
+              })
+            : location.wasm;
+          await instantiate(module, wasm);
+          return { module, source: location === local ? 'server' : 'CDN' };
+        } catch (error) {
+          console.warn(\`⚠️ Could not load the \${name} decoder from \${location.module}:\`, error);
+        }
+      }
+      throw new Error(\`no \${name} decoder could be loaded\`);
+    };
+    
     const initBrotli = async () => {
       try {
         console.log('⚡ Loading Brotli WASM library...');
         
-        const brotliImport = async () => import("https://cdn.jsdelivr.net/npm/brotli-wasm@3.0.1/index.web.js").then(m => m.default);
-        
-        brotli = await brotliImport();
-        
-        // Initialize the Brotli WASM module
-        await brotli.default();
+        const { module, source } = await loadWasmDecoder('brotli', (module, wasm) => module.default(wasm));
+        brotli = module;
         
         brotliSupported = true;
-        console.log('✅ Brotli WASM library loaded successfully');
+        console.log(\`✅ Brotli WASM library loaded successfully (\${source})\`);
       } catch (error) {
         console.error('❌ Failed to load Brotli WASM support:', error);
         console.log('⚠️ Brotli decompression will be disabled');
@@ -819,16 +2475,11 @@ const htmlPage = `
       try {
         console.log('🔥 Loading Zstd WASM library...');
         
-       const zstdImport = async () => import("https://unpkg.com/@bokuweb/zstd-wasm@0.0.27/dist/web/index.web.js")
-      
-       zstd= await zstdImport()
-
-       zstd.init()
-
-       zstdSupported = true;
-       console.log('✅ Zstd WASM library loaded successfully');
-
-
+        const { module, source } = await loadWasmDecoder('zstd', (module, wasm) => module.init(wasm));
+        zstd = module;
+        
+        zstdSupported = true;
+        console.log(\`✅ Zstd WASM library loaded successfully (\${source})\`);
       } catch (error) {
         console.error('❌ Failed to load Zstd WASM support:', error);
         console.log('⚠️ Zstd decompression will be disabled');
@@ -836,25 +2487,394 @@ const htmlPage = `
     };
     
     // Initialize compression libraries on page load
-    Promise.all([
+    const librariesReady = Promise.all([
       initBrotli(),
       initZstd()
     ]).then(() => {
       console.log('🚀 All compression libraries initialized');
     });
     
+    // Dictionaries (and Brotli primers) by URL, fetched once from the server
+    const dictionaries = new Map();
+    let zstdDictContext = null;
+    
+    const loadDictionary = (url) => {
+      if (!dictionaries.has(url)) {
+        dictionaries.set(url, fetch(url).then(async (response) => {
+          if (!response.ok) throw new Error(\`Dictionary \${url} not available (HTTP \${response.status})\`);
+          return new Uint8Array(await response.arrayBuffer());
+        }));
+      }
+      return dictionaries.get(url);
+    };
+    
+    const concatBytes = (parts) => {
+      const combined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+      let offset = 0;
+      for (const part of parts) {
+        combined.set(part, offset);
+        offset += part.length;
+      }
+      return combined;
+    };
+    
+    // Long-lived decompressors for the streaming context feeds (one per socket).
+    // Each frame is an envelope (stream-chunk flag set, original size in the 52-byte header) around
+    // one flushed chunk; the decompressor keeps its window across frames, so every frame of a socket
+    // must go through the same instance in order.
+    const createStreamDecoder = (codec) => {
+      if (codec === 'brotli') {
+        if (!brotliSupported) throw new Error('Brotli WASM not available');
+        const stream = new brotli.DecompressStream();
+        
+        return {
+          decompress: async (chunk, expectedLength) => {
+            const parts = [];
+            let inputOffset = 0;
+            let code;
+            do {
+              const result = stream.decompress(chunk.subarray(inputOffset), Math.max(expectedLength, 1024));
+              parts.push(result.buf);
+              inputOffset += result.input_offset;
+              code = result.code;
+            } while (code === brotli.BrotliStreamResultCode.NeedsMoreOutput);
+            return concatBytes(parts);
+          }
+        };
+      }
+      
+      // Gzip and Zstd use the native DecompressionStream ('zstd' only where the browser supports it)
+      const stream = new DecompressionStream(codec);
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+      let pending = new Uint8Array(0);
+      
+      return {
+        decompress: async (chunk, expectedLength) => {
+          writer.write(chunk);
+          const parts = [pending];
+          let length = pending.length;
+          while (length < expectedLength) {
+            const { done, value } = await reader.read();
+            if (done) throw new Error(\`\${codec} decompression stream ended unexpectedly\`);
+            parts.push(value);
+            length += value.length;
+          }
+          const combined = concatBytes(parts);
+          pending = combined.slice(expectedLength);
+          return combined.subarray(0, expectedLength);
+        }
+      };
+    };
+    
+    // Codecs published by the server (GET /codecs) that have a decoder below, by name and wire tag
+    const codecRegistry = new Map();
+    const codecsByTag = [];
+    
+    // Serialization formats published by the server (GET /serializers), by name and wire tag
+    const serializerRegistry = new Map();
+    const serializersByTag = [];
+    
+    // Registry codecs selected when the page loads
+    const DEFAULT_CODECS = ['none', 'gzip', 'brotli', 'zstd'];
+    
+    // One-shot decode with the native DecompressionStream ('gzip', 'deflate-raw', ...)
+    const decodeWithStream = async (format, bytes) => {
+      const stream = new DecompressionStream(format);
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+      
+      writer.write(bytes);
+      writer.close();
+      
+      const chunks = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+      }
+      return concatBytes(chunks);
+    };
+    
+    // LZ4 block with a uint32 LE uncompressed-length prefix
+    const lz4Decompress = (bytes) => {
+      const output = new Uint8Array(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0, true));
+      const readLength = (length, position) => {
+        let byte;
+        do {
+          byte = bytes[position++];
+          length += byte;
+        } while (byte === 255);
+        return [length, position];
+      };
+      let input = 4;
+      let position = 0;
+      while (input < bytes.length) {
+        const token = bytes[input++];
+        let literalLength = token >> 4;
+        if (literalLength === 15) [literalLength, input] = readLength(literalLength, input);
+        output.set(bytes.subarray(input, input + literalLength), position);
+        input += literalLength;
+        position += literalLength;
+        if (input >= bytes.length) break;
+        
+        const offset = bytes[input] | (bytes[input + 1] << 8);
+        input += 2;
+        let matchLength = token & 15;
+        if (matchLength === 15) [matchLength, input] = readLength(matchLength, input);
+        matchLength += 4;
+        for (let i = 0; i < matchLength; i++, position++) output[position] = output[position - offset];
+      }
+      return output;
+    };
+    
+    // Snappy raw format: varint length, then literals and copies with 1, 2 or 4 byte offsets
+    const snappyDecompress = (bytes) => {
+      let input = 0;
+      let length = 0;
+      for (let shift = 0; ; shift += 7) {
+        const byte = bytes[input++];
+        length |= (byte & 0x7f) << shift;
+        if (byte < 0x80) break;
+      }
+      const output = new Uint8Array(length);
+      let position = 0;
+      while (input < bytes.length) {
+        const tag = bytes[input++];
+        let copyLength;
+        let offset;
+        switch (tag & 3) {
+          case 0: {
+            let literalLength = tag >> 2;
+            if (literalLength >= 60) {
+              const lengthBytes = literalLength - 59;
+              literalLength = 0;
+              for (let i = 0; i < lengthBytes; i++) literalLength |= bytes[input++] << (8 * i);
+            }
+            literalLength += 1;
+            output.set(bytes.subarray(input, input + literalLength), position);
+            input += literalLength;
+            position += literalLength;
+            continue;
+          }
+          case 1:
+            copyLength = ((tag >> 2) & 7) + 4;
+            offset = ((tag >> 5) << 8) | bytes[input++];
+            break;
+          case 2:
+            copyLength = (tag >> 2) + 1;
+            offset = bytes[input] | (bytes[input + 1] << 8);
+            input += 2;
+            break;
+          default:
+            copyLength = (tag >> 2) + 1;
+            offset = (bytes[input] | (bytes[input + 1] << 8) | (bytes[input + 2] << 16) | (bytes[input + 3] << 24)) >>> 0;
+            input += 4;
+        }
+        for (let i = 0; i < copyLength; i++, position++) output[position] = output[position - offset];
+      }
+      return output;
+    };
+    
+    // MessagePack and CBOR readers for JSON's data model (what the server's serializers write)
+    const createByteReader = (bytes) => {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const textDecoder = new TextDecoder();
+      let position = 0;
+      // Moves past the next length bytes and returns where they start
+      const advance = (length) => (position += length) - length;
+      return {
+        uint8: () => view.getUint8(advance(1)),
+        uint16: () => view.getUint16(advance(2)),
+        uint32: () => view.getUint32(advance(4)),
+        uint64: () => view.getUint32(advance(4)) * 2 ** 32 + view.getUint32(advance(4)),
+        int8: () => view.getInt8(advance(1)),
+        int16: () => view.getInt16(advance(2)),
+        int32: () => view.getInt32(advance(4)),
+        int64: () => view.getInt32(advance(4)) * 2 ** 32 + view.getUint32(advance(4)),
+        float32: () => view.getFloat32(advance(4)),
+        float64: () => view.getFloat64(advance(8)),
+        bytes: (length) => bytes.subarray(advance(length), position),
+        text: (length) => textDecoder.decode(bytes.subarray(advance(length), position))
+      };
+    };
+    
+    const decodeMsgpack = (bytes) => {
+      const reader = createByteReader(bytes);
+      const array = (length) => Array.from({ length }, () => read());
+      const map = (length) => {
+        const object = {};
+        for (let i = 0; i < length; i++) object[read()] = read();
+        return object;
+      };
+      const read = () => {
+        const byte = reader.uint8();
+        if (byte < 0x80) return byte;
+        if (byte < 0x90) return map(byte & 0x0f);
+        if (byte < 0xa0) return array(byte & 0x0f);
+        if (byte < 0xc0) return reader.text(byte & 0x1f);
+        if (byte >= 0xe0) return byte - 0x100;
+        switch (byte) {
+          case 0xc0: return null;
+          case 0xc2: return false;
+          case 0xc3: return true;
+          case 0xc4: return reader.bytes(reader.uint8());
+          case 0xc5: return reader.bytes(reader.uint16());
+          case 0xc6: return reader.bytes(reader.uint32());
+          case 0xca: return reader.float32();
+          case 0xcb: return reader.float64();
+          case 0xcc: return reader.uint8();
+          case 0xcd: return reader.uint16();
+          case 0xce: return reader.uint32();
+          case 0xcf: return reader.uint64();
+          case 0xd0: return reader.int8();
+          case 0xd1: return reader.int16();
+          case 0xd2: return reader.int32();
+          case 0xd3: return reader.int64();
+          case 0xd9: return reader.text(reader.uint8());
+          case 0xda: return reader.text(reader.uint16());
+          case 0xdb: return reader.text(reader.uint32());
+          case 0xdc: return array(reader.uint16());
+          case 0xdd: return array(reader.uint32());
+          case 0xde: return map(reader.uint16());
+          case 0xdf: return map(reader.uint32());
+          default: throw new Error(\`Unsupported MessagePack type 0x\${byte.toString(16)}\`);
+        }
+      };
+      return read();
+    };
+    
+    const decodeFloat16 = (half) => {
+      const sign = half & 0x8000 ? -1 : 1;
+      const exponent = (half >> 10) & 0x1f;
+      const fraction = half & 0x3ff;
+      if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+      if (exponent === 31) return fraction ? NaN : sign * Infinity;
+      return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+    };
+    
+    const decodeCbor = (bytes) => {
+      const reader = createByteReader(bytes);
+      const argument = (info) => {
+        if (info < 24) return info;
+        switch (info) {
+          case 24: return reader.uint8();
+          case 25: return reader.uint16();
+          case 26: return reader.uint32();
+          case 27: return reader.uint64();
+          default: throw new Error('Indefinite-length CBOR items are not supported');
+        }
+      };
+      const read = () => {
+        const initial = reader.uint8();
+        const info = initial & 0x1f;
+        switch (initial >> 5) {
+          case 0: return argument(info);
+          case 1: return -1 - argument(info);
+          case 2: return reader.bytes(argument(info));
+          case 3: return reader.text(argument(info));
+          case 4: return Array.from({ length: argument(info) }, () => read());
+          case 5: {
+            const length = argument(info);
+            const object = {};
+            for (let i = 0; i < length; i++) object[read()] = read();
+            return object;
+          }
+          case 6:
+            // Tagged item: keep the value, ignore the tag
+            argument(info);
+            return read();
+          default:
+            switch (info) {
+              case 20: return false;
+              case 21: return true;
+              case 22: return null;
+              case 23: return undefined;
+              case 25: return decodeFloat16(reader.uint16());
+              case 26: return reader.float32();
+              case 27: return reader.float64();
+              default: throw new Error(\`Unsupported CBOR simple value \${info}\`);
+            }
+        }
+      };
+      return read();
+    };
+    
+    // Turn the decompressed bytes of a /feed frame back into data, by serialization format
+    const deserializers = {
+      json: (bytes) => JSON.parse(new TextDecoder().decode(bytes)),
+      msgpack: decodeMsgpack,
+      cbor: decodeCbor
+    };
+    
+    // Columnar batches (layout=columns, see layout.ts on the server) back to row objects.
+    // Rows arrive as an array and are returned as they are.
+    const fromColumnar = (batch) => {
+      const rows = Array.from({ length: batch.length }, () => ({}));
+      for (const column of batch.columns) {
+        const values = column.type === 'dictionary'
+          ? column.values.map(index => column.dictionary[index])
+          : column.type === 'decimal'
+            ? column.values.map(value => value?.toFixed(column.decimals))
+            : column.values;
+        if (column.type === 'decimal') {
+          column.exceptions.forEach(([row, text]) => { values[row] = text; });
+        }
+        rows.forEach((row, index) => { row[column.name] = values[index]; });
+      }
+      return rows;
+    };
+    
+    const toRows = (payload) => payload?.layout === 'columns' ? fromColumnar(payload) : payload;
+    
+    // Decoders for the server's codec registry, by codec name. Each takes a frame payload
+    // (bytes, or text on the base64 transport) and resolves to the decompressed bytes.
+    const decoders = {
+      none: async (message) => typeof message === 'string' ? new TextEncoder().encode(message) : toBytes(message),
+      gzip: async (message) => decodeWithStream('gzip', toBytes(message)),
+      'deflate-raw': async (message) => decodeWithStream('deflate-raw', toBytes(message)),
+      // Frames that arrive while the WASM libraries load wait for them; a missing library or a
+      // decompression error rejects, and the feed records the frame as failed
+      brotli: async (message) => {
+        await librariesReady;
+        if (!brotliSupported || !brotli) throw new Error('Brotli WASM not available');
+        return brotli.decompress(toBytes(message));
+      },
+      zstd: async (message) => {
+        await librariesReady;
+        if (!zstdSupported || !zstd) throw new Error('Zstd WASM not available');
+        return zstd.decompress(toBytes(message));
+      },
+      lz4: async (message) => lz4Decompress(toBytes(message)),
+      snappy: async (message) => snappyDecompress(toBytes(message))
+    };
+    
     // DOM elements
     const startBtn = document.getElementById('startBtn');
     const stopBtn = document.getElementById('stopBtn');
     const clearBtn = document.getElementById('clearBtn');
     const statusEl = document.getElementById('status');
     const compressionSelect = document.getElementById('compressionSelect');
+    const transportSelect = document.getElementById('transportSelect');
+    const deltaCodecSelect = document.getElementById('deltaCodecSelect');
+    const levelInput = document.getElementById('levelInput');
+    const windowInput = document.getElementById('windowInput');
+    const symbolsInput = document.getElementById('symbolsInput');
+    const exchangeInput = document.getElementById('exchangeInput');
+    const formatSelect = document.getElementById('formatSelect');
+    const layoutSelect = document.getElementById('layoutSelect');
+    const matrixBtn = document.getElementById('matrixBtn');
+    const matrixTable = document.getElementById('matrixTable');
+    const latencyTable = document.getElementById('latencyTable');
     
     const feeds = {
-      none: document.getElementById('none-feed'),
-      gzip: document.getElementById('gzip-feed'),
-      brotli: document.getElementById('brotli-feed'),
-      zstd: document.getElementById('zstd-feed')
+      'gzip-stream': document.getElementById('gzip-stream-feed'),
+      'brotli-stream': document.getElementById('brotli-stream-feed'),
+      'zstd-stream': document.getElementById('zstd-stream-feed'),
+      'permessage-deflate': document.getElementById('permessage-deflate-feed'),
+      delta: document.getElementById('delta-feed'),
+      'zstd-dict': document.getElementById('zstd-dict-feed'),
+      'brotli-dict': document.getElementById('brotli-dict-feed')
     };
     
     // Utility functions
@@ -866,6 +2886,151 @@ const htmlPage = `
       return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
     };
     
+    // Binary frames arrive as ArrayBuffer, legacy frames as base64 text
+    const toBytes = (message) => {
+      if (message instanceof ArrayBuffer) return new Uint8Array(message);
+      if (message instanceof Uint8Array) return message;
+      return Uint8Array.from(atob(message), c => c.charCodeAt(0));
+    };
+    
+    // Data frames (binary, or base64 on the legacy transport) are a 52-byte envelope followed by
+    // the compressed payload; the layout is documented in envelope.ts
+    const ENVELOPE_VERSION = 3;
+    const ENVELOPE_HEADER_BYTES = 52;
+    
+    const openEnvelope = (message) => {
+      const bytes = toBytes(message);
+      if (bytes.length < ENVELOPE_HEADER_BYTES) throw new Error(\`frame of \${bytes.length} bytes is shorter than an envelope\`);
+      
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const version = view.getUint8(0);
+      if (version !== ENVELOPE_VERSION) throw new Error(\`unsupported envelope version \${version}\`);
+      
+      const flags = view.getUint8(3);
+      const compressedSize = view.getUint32(12);
+      const payload = bytes.subarray(ENVELOPE_HEADER_BYTES);
+      if (payload.length !== compressedSize) throw new Error(\`payload is \${payload.length} bytes, the envelope says \${compressedSize}\`);
+      
+      return {
+        codec: codecsByTag[view.getUint8(1)],
+        format: serializersByTag[view.getUint8(2)],
+        messageId: view.getUint32(4),
+        originalSize: view.getUint32(8),
+        compressedSize,
+        checksum: view.getUint32(16),
+        compressMs: view.getUint32(20) / 1000,
+        generatedAt: view.getFloat64(24),
+        sentAt: view.getFloat64(32),
+        level: flags & 1 ? view.getInt8(40) : null,
+        window: flags & 2 ? view.getUint8(41) : null,
+        dictionaryId: flags & 4 ? view.getUint32(44) : null,
+        streamChunk: (flags & 8) !== 0,
+        sequence: view.getUint32(48),
+        snapshot: (flags & 16) !== 0,
+        payload
+      };
+    };
+    
+    // CRC-32 (IEEE), the envelope checksum of the original bytes
+    const CRC32_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      return c;
+    });
+    
+    const crc32 = (bytes) => {
+      let crc = 0xffffffff;
+      for (let i = 0; i < bytes.length; i++) crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+      return (crc ^ 0xffffffff) >>> 0;
+    };
+    
+    const hex32 = (value) => value.toString(16).padStart(8, '0');
+    
+    // Decoded bytes must have the envelope's original size and checksum
+    const verifyEnvelope = (envelope, bytes) => {
+      if (bytes.length !== envelope.originalSize) {
+        throw new Error(\`#\${envelope.messageId} decoded to \${bytes.length} bytes, the envelope says \${envelope.originalSize}\`);
+      }
+      const actual = crc32(bytes);
+      if (actual !== envelope.checksum) {
+        throw new Error(\`#\${envelope.messageId} checksum mismatch: CRC-32 \${hex32(actual)}, the envelope says \${hex32(envelope.checksum)}\`);
+      }
+    };
+    
+    // Envelope times are on the server's clock. Every feed socket pings the server, and the round
+    // trip with the least delay gives the best estimate of the offset (server minus browser clock):
+    // the pong was sent within rtt/2 of the round trip's midpoint.
+    const CLOCK_PING_INTERVAL_MS = 5000;
+    const CLOCK_SAMPLES = 20;
+    const clockSamples = [];
+    let clock = null;
+    
+    const wallClock = () => performance.timeOrigin + performance.now();
+    
+    const sendPing = (ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ op: 'ping', clientTime: wallClock() }));
+    };
+    
+    const recordPong = (pong) => {
+      const now = wallClock();
+      clockSamples.push({ rtt: now - pong.clientTime, offset: pong.serverTime - (pong.clientTime + now) / 2 });
+      if (clockSamples.length > CLOCK_SAMPLES) clockSamples.shift();
+      clock = clockSamples.reduce((best, sample) => sample.rtt < best.rtt ? sample : best);
+      
+      const sign = clock.offset >= 0 ? '+' : '−';
+      document.getElementById('clockStatus').textContent =
+        \`🕰️ Server clock \${sign}\${Math.abs(clock.offset).toFixed(1)} ms ± \${(clock.rtt / 2).toFixed(1)} ms from this browser (best of \${clockSamples.length} pings)\`;
+    };
+    
+    // Stages of one frame, in milliseconds: generated → sent (server), sent → received (network and
+    // queueing), received → decoded (this browser) and generated → decoded
+    const LATENCY_WINDOW = 500;
+    
+    const recordLatency = (stat, timing, decodedAt) => {
+      if (!clock) return;
+      const toLocal = (serverTime) => serverTime - clock.offset;
+      stat.latencies.push({
+        server: timing.sentAt - timing.generatedAt,
+        network: timing.receivedAt - toLocal(timing.sentAt),
+        decode: decodedAt - timing.receivedAt,
+        total: decodedAt - toLocal(timing.generatedAt)
+      });
+      if (stat.latencies.length > LATENCY_WINDOW) stat.latencies.shift();
+    };
+    
+    // Nearest-rank percentile
+    const percentile = (values, p) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return sorted[Math.max(Math.ceil(p / 100 * sorted.length) - 1, 0)];
+    };
+    
+    // Level/window from the controls that a codec accepts, the serialization format, the layout and
+    // the row filter, as /feed query parameters and setCodec fields
+    const feedSettings = (codec) => {
+      const settings = { format: formatSelect.value || 'json', layout: layoutSelect.value };
+      if (levelInput.value && codec.level) settings.level = Number(levelInput.value);
+      if (windowInput.value && codec.window) settings.window = Number(windowInput.value);
+      if (symbolsInput.value.trim()) settings.symbols = symbolsInput.value.trim();
+      if (exchangeInput.value.trim()) settings.exchange = exchangeInput.value.trim();
+      return settings;
+    };
+    
+    // Rebuild the full dataset from a delta feed frame (format documented next to createDeltaPatch)
+    const applyDeltaPatch = (base, patch) => {
+      if (patch.kind === 'snapshot') {
+        return { messageId: patch.messageId, items: patch.items };
+      }
+      if (!base || base.messageId !== patch.baseMessageId) {
+        throw new Error(\`Delta #\${patch.messageId} needs base #\${patch.baseMessageId}, waiting for the next snapshot\`);
+      }
+      
+      const items = base.items.slice(0, patch.length);
+      for (const [index, fields] of patch.changes) {
+        items[index] = { ...items[index], ...fields };
+      }
+      return { messageId: patch.messageId, items };
+    };
+    
     const formatTime = (seconds) => {
       const mins = Math.floor(seconds / 60);
       const secs = seconds % 60;
@@ -873,9 +3038,13 @@ const htmlPage = `
     };
     
     const updateStats = () => {
-      ['none', 'gzip', 'brotli', 'zstd'].forEach(type => {
+      Object.keys(stats).forEach(type => {
         const stat = stats[type];
         document.getElementById(\`\${type}-messages\`).textContent = stat.messages;
+        const errorsEl = document.getElementById(\`\${type}-errors\`);
+        errorsEl.textContent = stat.errors;
+        errorsEl.classList.toggle('has-errors', stat.errors > 0);
+        document.getElementById(\`\${type}-sequence\`).textContent = \`\${stat.gaps} / \${stat.resyncs}\`;
         document.getElementById(\`\${type}-bytes\`).textContent = formatBytes(stat.totalBytes);
         
         if (stat.sizes.length > 0) {
@@ -888,7 +3057,19 @@ const htmlPage = `
             document.getElementById(\`\${type}-time\`).textContent = avgTime.toFixed(2) + ' ms';
           }
           
-          if (type !== 'none') {
+          // Average compression time reported by the server
+          if (stat.compressTimes.length > 0) {
+            const avgCompressTime = stat.compressTimes.reduce((a, b) => a + b, 0) / stat.compressTimes.length;
+            document.getElementById(\`\${type}-server-time\`).textContent = avgCompressTime.toFixed(2) + ' ms';
+          }
+          
+          if (type === 'delta') {
+            // Compare against the full snapshot compressed with the same codec
+            const snapshotAvg = stat.totalSnapshotBytes / Math.max(stat.messages, 1);
+            const savings = snapshotAvg > 0 ? ((snapshotAvg - avgSize) / snapshotAvg * 100) : 0;
+            document.getElementById('delta-snapshot-avg').textContent = formatBytes(snapshotAvg);
+            document.getElementById('delta-savings').textContent = savings.toFixed(1) + '%';
+          } else if (type !== 'none') {
             const originalAvg = stat.totalOriginalBytes / Math.max(stat.messages, 1);
             const savings = originalAvg > 0 ? ((originalAvg - avgSize) / originalAvg * 100) : 0;
             document.getElementById(\`\${type}-savings\`).textContent = savings.toFixed(1) + '%';
@@ -898,16 +3079,13 @@ const htmlPage = `
       
       // Update performance metrics
       const totalOriginal = stats.none.totalOriginalBytes;
-      const totalGzip = stats.gzip.totalBytes;
-      const totalBrotli = stats.brotli.totalBytes;
-      const totalZstd = stats.zstd.totalBytes;
       
+      // Every feed except the uncompressed baseline and delta patches (which carry less data)
       let bestCompression = '-';
-      const compessionSizes = [
-        { name: 'Gzip', size: totalGzip },
-        { name: 'Brotli', size: totalBrotli },
-        { name: 'Zstd', size: totalZstd }
-      ].filter(c => c.size > 0);
+      const compessionSizes = Object.keys(stats)
+        .filter(type => type !== 'none' && type !== 'delta')
+        .map(type => ({ name: typeNames[type], size: stats[type].totalBytes }))
+        .filter(c => c.size > 0);
       
       if (compessionSizes.length > 0) {
         bestCompression = compessionSizes.reduce((best, current) => 
@@ -917,22 +3095,91 @@ const htmlPage = `
       
       document.getElementById('best-compression').textContent = bestCompression;
       
-      const minCompressedSize = Math.min(
-        totalGzip || totalOriginal, 
-        totalBrotli || totalOriginal, 
-        totalZstd || totalOriginal
-      );
+      const minCompressedSize = Math.min(totalOriginal, ...compessionSizes.map(c => c.size));
       const totalSavings = totalOriginal - minCompressedSize;
       document.getElementById('total-savings').textContent = formatBytes(totalSavings);
       
-      if (startTime) {
-        const elapsed = Math.floor((Date.now() - startTime) / 1000);
-        const messagesPerSec = elapsed > 0 ? Math.round(stats.none.messages / elapsed) : 0;
-        document.getElementById('messages-per-sec').textContent = messagesPerSec;
-      }
+      if (startTime) {
+        const elapsed = Math.floor((Date.now() - startTime) / 1000);
+        const messagesPerSec = elapsed > 0 ? Math.round(stats.none.messages / elapsed) : 0;
+        document.getElementById('messages-per-sec').textContent = messagesPerSec;
+      }
+      
+      renderLatency();
+      
+      // Update the chart
+      updateChart();
+    };
+    
+    // Generated → decoded percentiles per feed over its last LATENCY_WINDOW frames, with the median
+    // of each stage
+    const renderLatency = () => {
+      const types = Object.keys(stats).filter(type => stats[type].latencies.length > 0);
+      if (types.length === 0) {
+        latencyTable.innerHTML = \`<tr><td>\${clock ? 'Waiting for frames...' : 'Waiting for the clock sync...'}</td></tr>\`;
+        return;
+      }
+      
+      const ms = (value) => \`\${value.toFixed(1)} ms\`;
+      const header = '<tr><th>Feed</th><th>Frames</th><th>p50</th><th>p95</th><th>p99</th><th>Server p50</th><th>Network p50</th><th>Decode p50</th></tr>';
+      const rows = types.map(type => {
+        const { latencies } = stats[type];
+        const stage = (name) => latencies.map(sample => sample[name]);
+        const total = stage('total');
+        return \`<tr><th>\${typeNames[type]}</th><td>\${latencies.length}</td>\` +
+          [percentile(total, 50), percentile(total, 95), percentile(total, 99)].map(value => \`<td>\${ms(value)}</td>\`).join('') +
+          ['server', 'network', 'decode'].map(name => \`<td class="matrix-cell-detail">\${ms(percentile(stage(name), 50))}</td>\`).join('') +
+          '</tr>';
+      });
+      latencyTable.innerHTML = header + rows.join('');
+    };
+    
+    // The last frame of a feed that failed to decode, as received (bytes, or text on the base64
+    // and permessage-deflate feeds)
+    const downloadFailedFrame = (type) => {
+      const frame = stats[type].failedFrame;
+      if (!frame) return;
+      
+      const binary = typeof frame.data !== 'string';
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([frame.data], { type: binary ? 'application/octet-stream' : 'text/plain' }));
+      link.download = \`\${type}-failed-frame-\${frame.receivedAt}.\${binary ? 'bin' : 'txt'}\`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 0);
+    };
+    
+    // Error count, last error and a download button for the failed frame, shown above the feed
+    const showFeedErrors = (type) => {
+      const stat = stats[type];
+      const feed = feeds[type];
+      if (!stat.failedFrame) return;
+      
+      const note = document.createElement('div');
+      note.className = 'feed-error';
+      const text = document.createElement('span');
+      text.textContent = \`❌ \${stat.errors} failed to decode · last: \${stat.failedFrame.error}\`;
+      const button = document.createElement('button');
+      button.className = 'frame-download';
+      button.textContent = '⬇️ Frame';
+      button.title = 'Download the last frame that failed to decode';
+      button.addEventListener('click', () => downloadFailedFrame(type));
+      note.append(text, button);
+      
+      if (!feed.querySelector('.feed-line')) feed.textContent = '';
+      feed.querySelector('.feed-error')?.remove();
+      feed.prepend(note);
+    };
+    
+    // A frame that fails to decode counts as an error, not as a message, so it stays out of every
+    // total and average
+    const recordDecodeFailure = (type, data, error) => {
+      const stat = stats[type];
+      stat.errors++;
+      stat.failedFrame = { data, error: error instanceof Error ? error.message : String(error), receivedAt: Date.now() };
       
-      // Update the chart
-      updateChart();
+      document.querySelector(\`.stat-card.\${type}\`)?.classList.add('decode-error');
+      showFeedErrors(type);
+      updateStats();
     };
     
     const addToFeed = (type, data) => {
@@ -960,16 +3207,79 @@ const htmlPage = `
       }
     };
     
-    const connectWebSocket = (type) => {
-      const ws = new WebSocket(\`ws://localhost:3001/feed/\${type}\`);
+    const connectWebSocket = (type, encoding) => {
+      // The delta feed carries patches compressed with the codec picked in the controls
+      const codec = type === 'delta' ? deltaCodecSelect.value : type;
+      
+      // Plain codecs share the parameterised /feed endpoint, whose frames are tagged with their codec
+      const tagged = codecRegistry.has(type);
+      let url;
+      if (tagged) {
+        // Empty level/window use the server defaults
+        const params = new URLSearchParams({ codec, encoding, ...feedSettings(codecRegistry.get(type)) });
+        url = \`\${FEED_URL}/feed?\${params}\`;
+      } else {
+        const query = type === 'delta' ? \`codec=\${codec}&encoding=\${encoding}\` : \`encoding=\${encoding}\`;
+        url = \`\${FEED_URL}/feed/\${type}?\${query}\`;
+      }
+      const ws = new WebSocket(url);
+      ws.binaryType = 'arraybuffer';
+      
+      // Dataset rebuilt from the delta feed so far
+      let deltaBase = null;
+      
+      // Streaming context feeds keep one decompressor for the lifetime of the socket
+      const streamCodec = type.endsWith('-stream') ? type.replace('-stream', '') : null;
+      let streamDecoder = null;
+      let decodeQueue = Promise.resolve();
+      
+      // permessage-deflate data frame waiting for its wire size accounting frame
+      let pendingDeflateFrame = null;
+      
+      // Sequence number of the last frame taken, null until the first one or after a switch of feed;
+      // frames after a gap are skipped until the server answers the resync request
+      let lastSequence = null;
+      let resyncPending = false;
+      
+      // True for the next frame in sequence or a snapshot; a gap sends a resync request
+      const checkSequence = (envelope) => {
+        if (envelope.snapshot || lastSequence === null || envelope.sequence === lastSequence + 1) {
+          lastSequence = envelope.sequence;
+          return true;
+        }
+        // Already taken (e.g. a frame both replayed and published)
+        if (envelope.sequence <= lastSequence) return false;
+        
+        if (!resyncPending) {
+          console.warn(\`⚠️ \${type.toUpperCase()} missed frames #\${lastSequence + 1}–#\${envelope.sequence - 1}, resyncing\`);
+          stats[type].gaps++;
+          stats[type].resyncs++;
+          resyncPending = true;
+          ws.send(JSON.stringify({ op: 'resync', from: lastSequence }));
+          updateStats();
+        }
+        return false;
+      };
+      
+      let pingInterval = null;
       
       ws.onopen = () => {
-        console.log(\`✅ \${type.toUpperCase()} WebSocket connected\`);
+        console.log(\`✅ \${type.toUpperCase()} WebSocket connected (\${encoding})\`);
         updateConnectionStatus();
+        sendPing(ws);
+        pingInterval = setInterval(() => sendPing(ws), CLOCK_PING_INTERVAL_MS);
       };
       
-      ws.onclose = () => {
+      ws.onclose = (event) => {
         console.log(\`❌ \${type.toUpperCase()} WebSocket disconnected\`);
+        clearInterval(pingInterval);
+        if (event.code === 1008) {
+          // Settings rejected by the server (e.g. level out of range)
+          feeds[type].textContent = \`Rejected: \${event.reason}\`;
+        } else if (event.code === 4001) {
+          // Closed by the server's disconnect backpressure policy
+          feeds[type].textContent = \`Disconnected as a slow consumer (\${event.reason})\`;
+        }
         connections[type] = null;
         updateConnectionStatus();
       };
@@ -978,156 +3288,151 @@ const htmlPage = `
         console.error(\`❌ \${type.toUpperCase()} WebSocket error:\`, error);
       };
       
-      ws.onmessage = async ({ data: message }) => {
+      ws.onmessage = async ({ data }) => {
+        const receivedAt = wallClock();
         try {
           let decodedDataset;
-          let originalJsonString;
+          let originalSize;
           let decompressionTime = 0;
+          let wireBytes = null;
+          let envelope = null;
+          // Server generation and send times with the arrival time, and when decoding finished
+          let timing = null;
+          let decodedAt = null;
+          // Replayed after a gap, so older than a live frame
+          let replayed = false;
           
-          if (type === 'none') {
-            // No compression - direct JSON
-            const startTime = performance.now();
-            originalJsonString = message;
-            decodedDataset = JSON.parse(message);
-            decompressionTime = performance.now() - startTime;
-          } else if (type === 'gzip') {
-            // Gzip compression - use built-in DecompressionStream
+          // JSON text frames are pongs, resync replies, and on /feed replies to control commands and backpressure notices
+          // (every permessage-deflate frame is JSON text, so that feed sorts them out below)
+          if (type !== 'permessage-deflate' && typeof data === 'string' && data.startsWith('{')) {
+            const reply = JSON.parse(data);
+            if (reply.cmd === 'resync') resyncPending = false;
+            // The next frame comes from another feed, whose numbers don't follow on
+            if (reply.op === 'backpressure' || (reply.op === 'ack' && (reply.cmd === 'setCodec' || reply.cmd === 'resume'))) lastSequence = null;
+            if (reply.op === 'pong') recordPong(reply);
+            else if (reply.op === 'error') console.error(\`❌ \${type.toUpperCase()} control error:\`, reply.error);
+            else if (reply.op === 'backpressure') console.warn(\`🐢 \${type.toUpperCase()} \${reply.action === 'downgrade' ? 'downgraded' : 'restored'} to \${reply.key} by the server\`, reply);
+            else console.log(\`🎛️ \${type.toUpperCase()} \${reply.cmd} acknowledged:\`, reply);
+            return;
+          }
+          
+          // Checking the decoded bytes against the envelope is not part of the decompression time
+          let checkTime = 0;
+          const verify = (bytes) => {
+            const checkStart = performance.now();
+            verifyEnvelope(envelope, bytes);
+            checkTime += performance.now() - checkStart;
+          };
+          
+          if (type === 'permessage-deflate') {
+            // The browser inflates these frames in the network stack, so only JSON.parse is timed.
+            // The server follows every data frame with {op: 'wire'} carrying its real size on the wire.
+            // These frames have no envelope: the JSON text itself is what permessage-deflate compresses.
+            // The wire frame also carries the server times, since these frames have no envelope.
             const startTime = performance.now();
-            const bytes = Uint8Array.from(atob(message), c => c.charCodeAt(0));
-            const stream = new DecompressionStream('gzip');
-            const writer = stream.writable.getWriter();
-            const reader = stream.readable.getReader();
+            const parsed = JSON.parse(data);
             
-            writer.write(bytes);
-            writer.close();
+            if (Array.isArray(parsed)) {
+              pendingDeflateFrame = { decodedDataset: parsed, originalSize: new TextEncoder().encode(data).length, decompressionTime: performance.now() - startTime, receivedAt, decodedAt: wallClock() };
+              return;
+            }
+            if (parsed.op === 'pong') {
+              recordPong(parsed);
+              return;
+            }
+            if (parsed.op !== 'wire' || !pendingDeflateFrame) return;
             
-            // Read all chunks from the decompression stream
-            const chunks = [];
-            let totalLength = 0;
+            // Dropped frames show as a jump in the numbers; they are not replayed, the next frame is a whole dataset anyway
+            if (lastSequence !== null && parsed.sequence > lastSequence + 1) stats[type].gaps++;
+            lastSequence = parsed.sequence;
             
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              
-              chunks.push(value);
-              totalLength += value.length;
-            }
+            ({ decodedDataset, originalSize, decompressionTime, decodedAt } = pendingDeflateFrame);
+            wireBytes = parsed.wireBytes;
+            timing = { generatedAt: parsed.generatedAt, sentAt: parsed.sentAt, receivedAt: pendingDeflateFrame.receivedAt };
+            pendingDeflateFrame = null;
+          } else {
+            envelope = openEnvelope(data);
+            replayed = resyncPending;
+            if (!checkSequence(envelope)) return;
+            originalSize = envelope.originalSize;
+            timing = { generatedAt: envelope.generatedAt, sentAt: envelope.sentAt, receivedAt };
+          }
+          
+          if (streamCodec) {
+            // Streaming context - feed the chunk through this socket's long-lived decompressor
+            const startTime = performance.now();
             
-            // Combine all chunks into a single Uint8Array
-            const combinedArray = new Uint8Array(totalLength);
-            let offset = 0;
-            for (const chunk of chunks) {
-              combinedArray.set(chunk, offset);
-              offset += chunk.length;
-            }
+            // A snapshot is the first chunk of a new stream
+            if (envelope.snapshot) streamDecoder = null;
+            streamDecoder ??= librariesReady.then(() => createStreamDecoder(streamCodec));
+            const decoder = streamDecoder;
+            const decompressed = decodeQueue.then(async () => (await decoder).decompress(envelope.payload, envelope.originalSize));
+            decodeQueue = decompressed.catch(() => {});
+            
+            const decompressedBytes = await decompressed;
+            verify(decompressedBytes);
+            decodedDataset = JSON.parse(new TextDecoder().decode(decompressedBytes));
+            decompressionTime = performance.now() - startTime - checkTime;
+          } else if (type === 'zstd-dict') {
+            // Zstd with a trained dictionary, named by the envelope's dictionary id
+            const dictionaryId = hex32(envelope.dictionaryId);
+            await librariesReady;
+            if (!zstdSupported || !zstd) throw new Error('Zstd WASM not available');
+            
+            // The dictionary download is not part of the decompression time
+            const dictionary = await loadDictionary(\`/dict/zstd/\${dictionaryId}\`);
+            zstdDictContext ??= zstd.createDCtx();
             
-            originalJsonString = new TextDecoder().decode(combinedArray);
-            decodedDataset = JSON.parse(originalJsonString);
-            decompressionTime = performance.now() - startTime;
-                      } else if (type === 'brotli') {
-            // Brotli compression - use WASM library
             const startTime = performance.now();
-            const bytes = Uint8Array.from(atob(message), c => c.charCodeAt(0));
+            const decompressed = zstd.decompressUsingDict(zstdDictContext, envelope.payload, dictionary);
+            verify(decompressed);
+            decodedDataset = JSON.parse(new TextDecoder().decode(decompressed));
+            decompressionTime = performance.now() - startTime - checkTime;
+            document.getElementById('zstd-dict-id').textContent = \`\${dictionaryId} (\${formatBytes(dictionary.length)})\`;
+          } else if (type === 'brotli-dict') {
+            // Brotli with a shared dictionary: the payload continues a stream whose opening chunk
+            // (the primer) compressed the dictionary
+            const dictionaryId = hex32(envelope.dictionaryId);
+            await librariesReady;
             
-            if (brotliSupported && brotli) {
-              try {
-                // Use Brotli WASM library for decompression
-                const decompressed = brotli.decompress(bytes);
-                originalJsonString = new TextDecoder().decode(decompressed);
-                decodedDataset = JSON.parse(originalJsonString);
-                decompressionTime = performance.now() - startTime;
-                console.log('✅ Successfully decompressed Brotli data');
-              } catch (error) {
-                console.error('❌ Brotli decompression error:', error);
-                // Fallback to placeholder if decompression fails
-                decodedDataset = Array.from({ length: 1000 }, (_, i) => ({
-                  id: i + 1,
-                  ts: Date.now(),
-                  price: (45000 + Math.sin(i / 100) * 5000 + (Math.random() - 0.5) * 1000).toFixed(2),
-                  symbol: ['BTC/USD', 'ETH/USD', 'SOL/USD'][i % 3],
-                  volume: Math.floor(Math.random() * 10000) + 1000,
-                  change: ((Math.random() - 0.5) * 1000).toFixed(2),
-                  changePercent: ((Math.random() - 0.5) * 5).toFixed(2),
-                  high: (Math.random() * 50000).toFixed(2),
-                  low: (Math.random() * 40000).toFixed(2),
-                  market: 'crypto',
-                  exchange: 'brotli-error'
-                }));
-                originalJsonString = JSON.stringify(decodedDataset);
-                decompressionTime = performance.now() - startTime;
-              }
-            } else {
-              console.log('⚠️ Brotli WASM not available, showing placeholder data');
-              // Create placeholder dataset when WASM is not available
-              decodedDataset = Array.from({ length: 1000 }, (_, i) => ({
-                id: i + 1,
-                ts: Date.now(),
-                price: (45000 + Math.sin(i / 100) * 5000 + (Math.random() - 0.5) * 1000).toFixed(2),
-                symbol: ['BTC/USD', 'ETH/USD', 'SOL/USD'][i % 3],
-                volume: Math.floor(Math.random() * 10000) + 1000,
-                change: ((Math.random() - 0.5) * 1000).toFixed(2),
-                changePercent: ((Math.random() - 0.5) * 5).toFixed(2),
-                high: (Math.random() * 50000).toFixed(2),
-                low: (Math.random() * 40000).toFixed(2),
-                market: 'crypto',
-                exchange: 'brotli-placeholder'
-              }));
-              originalJsonString = JSON.stringify(decodedDataset);
-              decompressionTime = performance.now() - startTime;
-            }
-          } else if (type === 'zstd') {
-            // Zstd compression - use WASM library
+            const [dictionary, primer] = await Promise.all([
+              loadDictionary(\`/dict/brotli/\${dictionaryId}\`),
+              loadDictionary(\`/dict/brotli/\${dictionaryId}/primer\`)
+            ]);
+            
+            // Every frame restarts from the primed state, so priming counts towards decode time
             const startTime = performance.now();
-            const bytes = Uint8Array.from(atob(message), c => c.charCodeAt(0));
+            const decoder = createStreamDecoder('brotli');
+            await decoder.decompress(primer, dictionary.length);
+            const decompressed = await decoder.decompress(envelope.payload, envelope.originalSize);
+            verify(decompressed);
+            decodedDataset = JSON.parse(new TextDecoder().decode(decompressed));
+            decompressionTime = performance.now() - startTime - checkTime;
+            document.getElementById('brotli-dict-id').textContent = \`\${dictionaryId} (\${formatBytes(dictionary.length)})\`;
+          } else if (envelope) {
+            // Registry codecs (/feed and delta patches), decoded with the codec and format in the envelope
+            const decode = decoders[envelope.codec];
+            if (!decode) throw new Error(\`No decoder for codec \${envelope.codec}\`);
+            const deserialize = deserializers[envelope.format];
+            if (!deserialize) throw new Error(\`No deserializer for format \${envelope.format}\`);
             
-            if (zstdSupported && zstd) {
-              try {
-                // Use Zstd WASM library for decompression
-                const decompressed = zstd.decompress(bytes);
-                originalJsonString = new TextDecoder().decode(decompressed);
-                decodedDataset = JSON.parse(originalJsonString);
-                decompressionTime = performance.now() - startTime;
-                console.log('✅ Successfully decompressed Zstd data');
-              } catch (error) {
-                console.error('❌ Zstd decompression error:', error);
-                // Fallback to placeholder if decompression fails
-                decodedDataset = Array.from({ length: 1000 }, (_, i) => ({
-                  id: i + 1,
-                  ts: Date.now(),
-                  price: (45000 + Math.sin(i / 100) * 5000 + (Math.random() - 0.5) * 1000).toFixed(2),
-                  symbol: ['BTC/USD', 'ETH/USD', 'SOL/USD'][i % 3],
-                  volume: Math.floor(Math.random() * 10000) + 1000,
-                  change: ((Math.random() - 0.5) * 1000).toFixed(2),
-                  changePercent: ((Math.random() - 0.5) * 5).toFixed(2),
-                  high: (Math.random() * 50000).toFixed(2),
-                  low: (Math.random() * 40000).toFixed(2),
-                  market: 'crypto',
-                  exchange: 'zstd-error'
-                }));
-                originalJsonString = JSON.stringify(decodedDataset);
-                decompressionTime = performance.now() - startTime;
-              }
-            } else {
-              console.log('⚠️ Zstd WASM not available, showing placeholder data');
-              // Create placeholder dataset when WASM is not available
-              decodedDataset = Array.from({ length: 1000 }, (_, i) => ({
-                id: i + 1,
-                ts: Date.now(),
-                price: (45000 + Math.sin(i / 100) * 5000 + (Math.random() - 0.5) * 1000).toFixed(2),
-                symbol: ['BTC/USD', 'ETH/USD', 'SOL/USD'][i % 3],
-                volume: Math.floor(Math.random() * 10000) + 1000,
-                change: ((Math.random() - 0.5) * 1000).toFixed(2),
-                changePercent: ((Math.random() - 0.5) * 5).toFixed(2),
-                high: (Math.random() * 50000).toFixed(2),
-                low: (Math.random() * 40000).toFixed(2),
-                market: 'crypto',
-                exchange: 'zstd-placeholder'
-              }));
-              originalJsonString = JSON.stringify(decodedDataset);
-              decompressionTime = performance.now() - startTime;
-            }
+            const startTime = performance.now();
+            const decoded = await decode(envelope.payload);
+            verify(decoded);
+            decodedDataset = toRows(deserialize(decoded));
+            decompressionTime = performance.now() - startTime - checkTime;
+          }
+          
+          // Delta frames decode to a patch; apply it to rebuild the full dataset
+          let deltaPatch = null;
+          if (type === 'delta') {
+            deltaPatch = decodedDataset;
+            deltaBase = applyDeltaPatch(deltaBase, deltaPatch);
+            decodedDataset = deltaBase.items;
           }
           
+          decodedAt ??= wallClock();
+          
           // Ensure we have an array (large dataset)
           const dataset = Array.isArray(decodedDataset) ? decodedDataset : [decodedDataset];
           
@@ -1135,21 +3440,30 @@ const htmlPage = `
           const stat = stats[type];
           stat.messages++;
           
-          // Calculate real sizes
-          const originalSize = new TextEncoder().encode(originalJsonString).length;
-          const compressedSize = type === 'none' ? originalSize : Math.ceil(message.length * 3 / 4); // base64 decoded size
+          // Sizes and server time come from the envelope (permessage-deflate: the measured wire size)
+          const compressedSize = wireBytes ?? envelope.compressedSize;
+          if (envelope) stat.compressTimes.push(envelope.compressMs);
+          
+          if (deltaPatch) {
+            // Join snapshots don't carry snapshotSize; they are full snapshots themselves
+            stat.totalSnapshotBytes += deltaPatch.snapshotSize ?? compressedSize;
+          }
           
           stat.totalBytes += compressedSize;
           stat.totalOriginalBytes += originalSize;
           stat.sizes.push(compressedSize);
           stat.decompressionTimes.push(decompressionTime);
           
+          // Snapshots and replayed frames repeat earlier ticks, so their age is not a latency
+          if (!envelope?.snapshot && !replayed) recordLatency(stat, timing, decodedAt);
+          
           // Show sample of the large dataset in the feed (first 10 items)
           const sampleData = dataset.slice(0, 10);
           
           // Clear previous data and add new sample
           const feed = feeds[type];
-          feed.innerHTML = \`<div style="color: #666; font-size: 0.8rem; margin-bottom: 0.5rem; text-align: center;">📦 Dataset: \${dataset.length} items (showing first 10)</div>\`;
+          const patchInfo = deltaPatch ? (deltaPatch.kind === 'delta' ? \` · delta, \${deltaPatch.changes.length} changed\` : ' · snapshot') : '';
+          feed.innerHTML = \`<div style="color: #666; font-size: 0.8rem; margin-bottom: 0.5rem; text-align: center;">📦 Dataset: \${dataset.length} items\${patchInfo} (showing first 10)</div>\`;
           
           sampleData.forEach(item => {
             addToFeed(type, {
@@ -1159,9 +3473,13 @@ const htmlPage = `
             });
           });
           
+          document.querySelector(\`.stat-card.\${type}\`)?.classList.remove('decode-error');
+          showFeedErrors(type);
+          
           updateStats();
         } catch (error) {
-          console.error(\`Error processing \${type} message:\`, error);
+          console.error(\`❌ Failed to decode \${type} message:\`, error);
+          recordDecodeFailure(type, data, error);
         }
       };
       
@@ -1175,27 +3493,6 @@ const htmlPage = `
     };
     
     const updateChartForSelection = (selectedTypes) => {
-      const typeNames = {
-        'none': 'No Compression',
-        'gzip': 'Gzip',
-        'brotli': 'Brotli',
-        'zstd': 'Zstd'
-      };
-      
-      const typeColors = {
-        'none': 'rgba(255, 107, 107, 0.8)',
-        'gzip': 'rgba(78, 205, 196, 0.8)',
-        'brotli': 'rgba(69, 183, 209, 0.8)',
-        'zstd': 'rgba(243, 156, 18, 0.8)'
-      };
-      
-      const typeBorders = {
-        'none': 'rgba(255, 107, 107, 1)',
-        'gzip': 'rgba(78, 205, 196, 1)',
-        'brotli': 'rgba(69, 183, 209, 1)',
-        'zstd': 'rgba(243, 156, 18, 1)'
-      };
-      
       // Update chart labels and data arrays
       compressionChart.data.labels = selectedTypes.map(type => typeNames[type]);
       
@@ -1210,7 +3507,7 @@ const htmlPage = `
           }
           return typeColors[type];
         });
-        dataset.borderColor = selectedTypes.map(type => typeBorders[type]);
+        dataset.borderColor = selectedTypes.map(type => typeColors[type].replace('0.8', '1'));
       });
       
       // Set initial compression ratio for 'none' if selected
@@ -1223,7 +3520,7 @@ const htmlPage = `
     };
     
     const updateStatsVisibility = (selectedTypes) => {
-      const allTypes = ['none', 'gzip', 'brotli', 'zstd'];
+      const allTypes = Object.keys(feeds);
       
       allTypes.forEach(type => {
         const statCard = document.querySelector(\`.stat-card.\${type}\`);
@@ -1254,8 +3551,9 @@ const htmlPage = `
       updateStatsVisibility(selectedTypes);
       
       // Connect only to selected compression type feeds
+      const encoding = transportSelect.value;
       selectedTypes.forEach(type => {
-        connections[type] = connectWebSocket(type);
+        connections[type] = connectWebSocket(type, encoding);
       });
       
       startTime = Date.now();
@@ -1270,6 +3568,8 @@ const htmlPage = `
       
       startBtn.disabled = true;
       stopBtn.disabled = false;
+      transportSelect.disabled = true;
+      deltaCodecSelect.disabled = true;
     };
     
     const stopStreaming = () => {
@@ -1294,18 +3594,21 @@ const htmlPage = `
       updateConnectionStatus();
       startBtn.disabled = false;
       stopBtn.disabled = true;
+      transportSelect.disabled = false;
+      deltaCodecSelect.disabled = false;
     };
     
     const clearData = () => {
       // Reset statistics
       Object.keys(stats).forEach(type => {
-        stats[type] = { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [] };
+        stats[type] = { messages: 0, totalBytes: 0, totalOriginalBytes: 0, totalSnapshotBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null };
       });
       
       // Clear feeds
       Object.values(feeds).forEach(feed => {
         feed.innerHTML = 'Waiting for data...';
       });
+      document.querySelectorAll('.stat-card.decode-error').forEach(card => card.classList.remove('decode-error'));
       
       // Reset performance metrics
       document.getElementById('best-compression').textContent = '-';
@@ -1320,14 +3623,7 @@ const htmlPage = `
       compressionChart.data.datasets[2].data = new Array(currentSize).fill(0);
       
       // Set compression ratio baseline for 'none' if present
-      const currentTypes = compressionChart.data.labels.map(label => {
-        return {
-          'No Compression': 'none',
-          'Gzip': 'gzip',
-          'Brotli': 'brotli',
-          'Zstd': 'zstd'
-        }[label];
-      });
+      const currentTypes = chartTypes();
       
       if (currentTypes.includes('none')) {
         const noneIndex = currentTypes.indexOf('none');
@@ -1339,11 +3635,202 @@ const htmlPage = `
       updateStats();
     };
     
+    // Stat card, feed and chart entries for one registry codec
+    const hexToRgba = (hex, alpha) => {
+      const value = parseInt(hex.slice(1), 16);
+      return \`rgba(\${value >> 16}, \${(value >> 8) & 255}, \${value & 255}, \${alpha})\`;
+    };
+    
+    const statRow = (label, id, initial) => \`
+        <div class="stat-value">
+          <span>\${label}:</span>
+          <span class="stat-number" id="\${id}">\${initial}</span>
+        </div>\`;
+    
+    const addCodecUi = (codec, firstCard, firstFeed, firstOption) => {
+      const card = document.createElement('div');
+      card.className = \`stat-card \${codec.name}\`;
+      card.style.borderLeftColor = codec.color;
+      card.innerHTML = \`
+        <div class="stat-title">\${codec.emoji} \${codec.label}</div>\`
+        + statRow('Messages', \`\${codec.name}-messages\`, '0')
+        + statRow('Errors', \`\${codec.name}-errors\`, '0')
+        + statRow('Gaps / Resyncs', \`\${codec.name}-sequence\`, '0 / 0')
+        + statRow('Total Bytes', \`\${codec.name}-bytes\`, '0')
+        + statRow('Avg Size', \`\${codec.name}-avg\`, '0 B')
+        + statRow('Avg Time', \`\${codec.name}-time\`, '0 ms')
+        + statRow('Server Time', \`\${codec.name}-server-time\`, '-')
+        + (codec.name === 'none' ? '' : statRow('Savings', \`\${codec.name}-savings\`, '0%'));
+      firstCard.parentElement.insertBefore(card, firstCard);
+      
+      const feedContainer = document.createElement('div');
+      feedContainer.className = 'feed-container';
+      feedContainer.innerHTML = \`
+        <div class="feed-header \${codec.name}" style="background: \${codec.color}">\${codec.emoji} \${codec.label} Feed</div>
+        <div class="feed-content" id="\${codec.name}-feed">Waiting for data...</div>\`;
+      firstFeed.parentElement.insertBefore(feedContainer, firstFeed);
+      
+      compressionSelect.insertBefore(new Option(\`\${codec.emoji} \${codec.label}\`, codec.name, false, DEFAULT_CODECS.includes(codec.name)), firstOption);
+      deltaCodecSelect.add(new Option(codec.label, codec.name, false, codec.name === 'brotli'));
+      
+      connections[codec.name] = null;
+      stats[codec.name] = { messages: 0, totalBytes: 0, totalOriginalBytes: 0, sizes: [], decompressionTimes: [], compressTimes: [], latencies: [], errors: 0, gaps: 0, resyncs: 0, failedFrame: null };
+      feeds[codec.name] = document.getElementById(\`\${codec.name}-feed\`);
+      typeNames[codec.name] = codec.label;
+      typeColors[codec.name] = hexToRgba(codec.color, 0.8);
+    };
+    
+    const loadCodecs = async () => {
+      const response = await fetch('/codecs');
+      const serverCodecs = await response.json();
+      
+      // Generated entries go before the fixed feeds (streaming context, dictionaries, ...)
+      const firstCard = document.querySelector('.stats .stat-card');
+      const firstFeed = document.querySelector('.feeds .feed-container');
+      const firstOption = compressionSelect.options[0];
+      
+      serverCodecs.forEach(codec => {
+        if (!decoders[codec.name]) {
+          console.warn(\`⚠️ No decoder for codec \${codec.name}, skipping it\`);
+          return;
+        }
+        codecRegistry.set(codec.name, codec);
+        codecsByTag[codec.tag] = codec.name;
+        addCodecUi(codec, firstCard, firstFeed, firstOption);
+      });
+      console.log('🧰 Codecs:', [...codecRegistry.keys()]);
+    };
+    
+    const loadSerializers = async () => {
+      const response = await fetch('/serializers');
+      const serverSerializers = await response.json();
+      
+      serverSerializers.forEach(serializer => {
+        if (!deserializers[serializer.name]) {
+          console.warn(\`⚠️ No deserializer for format \${serializer.name}, skipping it\`);
+          return;
+        }
+        serializerRegistry.set(serializer.name, serializer);
+        serializersByTag[serializer.tag] = serializer.name;
+        formatSelect.add(new Option(serializer.label, serializer.name, false, serializer.name === 'json'));
+      });
+      console.log('🧬 Serializers:', [...serializerRegistry.keys()]);
+    };
+    
+    // Serialization × codec matrix: a short-lived /feed socket per format, layout and codec collects
+    // a few frames, which are then decoded one at a time so no timing includes another socket's work
+    const MATRIX_MESSAGES = 3;
+    const MATRIX_LAYOUTS = [{ name: 'rows', label: 'rows' }, { name: 'columns', label: 'columns' }];
+    
+    const collectMatrixFrames = (codec, format, layout) => new Promise((resolve) => {
+      const params = new URLSearchParams({ codec: codec.name, format: format.name, layout: layout.name });
+      const ws = new WebSocket(\`\${FEED_URL}/feed?\${params}\`);
+      ws.binaryType = 'arraybuffer';
+      const frames = [];
+      
+      ws.onmessage = ({ data }) => {
+        if (typeof data === 'string') return;
+        frames.push(data);
+        if (frames.length === MATRIX_MESSAGES) ws.close();
+      };
+      ws.onclose = () => resolve(frames);
+    });
+    
+    const measureMatrixFrames = async (frames) => {
+      let compressedBytes = 0;
+      let serializedBytes = 0;
+      let decodeTime = 0;
+      
+      for (const frame of frames) {
+        const envelope = openEnvelope(frame);
+        const startTime = performance.now();
+        const decoded = await decoders[envelope.codec](envelope.payload);
+        const decompressTime = performance.now() - startTime;
+        verifyEnvelope(envelope, decoded);
+        
+        const deserializeStart = performance.now();
+        toRows(deserializers[envelope.format](decoded));
+        decodeTime += decompressTime + performance.now() - deserializeStart;
+        compressedBytes += envelope.compressedSize;
+        serializedBytes += envelope.originalSize;
+      }
+      
+      return { compressedBytes: compressedBytes / frames.length, serializedBytes: serializedBytes / frames.length, decodeTime: decodeTime / frames.length };
+    };
+    
+    // Cells show compressed bytes, the ratio to uncompressed JSON rows and the decode time
+    // (including the columns-to-rows transform); the smallest and the fastest cell are highlighted
+    const renderMatrix = (codecList, formatList, results, pending) => {
+      const measured = [...results.values()].filter(result => !result.error);
+      const baseline = results.get('json/rows/none')?.compressedBytes;
+      const smallest = Math.min(...measured.map(result => result.compressedBytes));
+      const fastest = Math.min(...measured.map(result => result.decodeTime));
+      
+      const header = '<tr><th>Format</th>' + codecList.map(codec => \`<th>\${codec.emoji} \${codec.label}</th>\`).join('') + '</tr>';
+      const rows = formatList.flatMap(format => MATRIX_LAYOUTS.map(layout => \`<tr><th>\${format.label} · \${layout.label}</th>\` + codecList.map(codec => {
+        const result = results.get(\`\${format.name}/\${layout.name}/\${codec.name}\`);
+        if (!result) return \`<td>\${pending ? '⏳' : '—'}</td>\`;
+        if (result.error) return \`<td class="matrix-error" title="\${result.error.replace(/"/g, '&quot;')}">❌ decode failed</td>\`;
+        
+        const classes = [result.compressedBytes === smallest && 'best-size', result.decodeTime === fastest && 'best-time'].filter(Boolean).join(' ');
+        const ratio = baseline ? \` · \${(baseline / result.compressedBytes).toFixed(2)}x\` : '';
+        return \`<td class="\${classes}">\${formatBytes(Math.round(result.compressedBytes))}\${ratio}\` +
+          \`<div class="matrix-cell-detail">\${result.decodeTime.toFixed(2)} ms decode · \${formatBytes(Math.round(result.serializedBytes))} serialized</div></td>\`;
+      }).join('') + '</tr>'));
+      
+      matrixTable.innerHTML = header + rows.join('');
+    };
+    
+    const runMatrix = async () => {
+      matrixBtn.disabled = true;
+      matrixBtn.textContent = '⏳ Measuring...';
+      
+      const codecList = [...codecRegistry.values()];
+      const formatList = [...serializerRegistry.values()];
+      const cells = formatList.flatMap(format => MATRIX_LAYOUTS.flatMap(layout => codecList.map(codec => ({ codec, format, layout }))));
+      const results = new Map();
+      renderMatrix(codecList, formatList, results, true);
+      
+      const frames = await Promise.all(cells.map(({ codec, format, layout }) => collectMatrixFrames(codec, format, layout)));
+      for (const [index, { codec, format, layout }] of cells.entries()) {
+        if (frames[index].length === 0) continue;
+        try {
+          results.set(\`\${format.name}/\${layout.name}/\${codec.name}\`, await measureMatrixFrames(frames[index]));
+        } catch (error) {
+          console.error(\`❌ Matrix \${format.name} (\${layout.name}) × \${codec.name} failed:\`, error);
+          results.set(\`\${format.name}/\${layout.name}/\${codec.name}\`, { error: error instanceof Error ? error.message : String(error) });
+        }
+        renderMatrix(codecList, formatList, results, true);
+      }
+      
+      renderMatrix(codecList, formatList, results, false);
+      console.log('📐 Matrix:', Object.fromEntries(results));
+      matrixBtn.disabled = false;
+      matrixBtn.textContent = '📐 Measure Matrix';
+    };
+    
     // Event listeners
     startBtn.addEventListener('click', startStreaming);
+    matrixBtn.addEventListener('click', runMatrix);
     stopBtn.addEventListener('click', stopStreaming);
     clearBtn.addEventListener('click', clearData);
     
+    // Level/window/format/layout/filter changes apply to live /feed sockets through the control protocol, without reconnecting
+    const applyFeedSettings = () => {
+      codecRegistry.forEach(codec => {
+        const ws = connections[codec.name];
+        if (ws?.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ op: 'setCodec', codec: codec.name, ...feedSettings(codec) }));
+        }
+      });
+    };
+    levelInput.addEventListener('change', applyFeedSettings);
+    windowInput.addEventListener('change', applyFeedSettings);
+    formatSelect.addEventListener('change', applyFeedSettings);
+    layoutSelect.addEventListener('change', applyFeedSettings);
+    symbolsInput.addEventListener('change', applyFeedSettings);
+    exchangeInput.addEventListener('change', applyFeedSettings);
+    
     // Update UI when compression selection changes
     compressionSelect.addEventListener('change', () => {
       const selectedTypes = Array.from(compressionSelect.selectedOptions).map(option => option.value);
@@ -1355,211 +3842,708 @@ const htmlPage = `
       }
     });
     
-    // Initial state
+    // Initial state (streaming can start once the codec and format lists are in)
+    startBtn.disabled = true;
     stopBtn.disabled = true;
+    matrixBtn.disabled = true;
     updateConnectionStatus();
     
-    // Initialize UI with default selection
-    const initialSelection = Array.from(compressionSelect.selectedOptions).map(option => option.value);
-    if (initialSelection.length > 0) {
-      updateChartForSelection(initialSelection);
-      updateStatsVisibility(initialSelection);
-    }
+    Promise.all([loadCodecs(), loadSerializers()]).then(() => {
+      startBtn.disabled = false;
+      matrixBtn.disabled = false;
+      
+      // Initialize UI with default selection
+      const initialSelection = Array.from(compressionSelect.selectedOptions).map(option => option.value);
+      if (initialSelection.length > 0) {
+        updateChartForSelection(initialSelection);
+        updateStatsVisibility(initialSelection);
+      }
+    });
   </script>
 </body>
 </html>
 `;
 
 // --- Create Elysia app ---
-const app = new Elysia()
-  .ws("/feed/none", {
+// Query accepted by every feed route
+const feedQuery = t.Object({
+  encoding: t.Optional(t.Union([t.Literal("binary"), t.Literal("base64")]))
+});
+
+// Query of /feed; the codec and its level and window ranges come from the registry and are checked on open
+const configuredFeedQuery = t.Object({
+  codec: t.String(),
+  level: t.Optional(t.Numeric()),
+  window: t.Optional(t.Numeric()),
+  format: t.Optional(t.String()),
+  layout: t.Optional(t.String()),
+  symbols: t.Optional(t.String()),
+  exchange: t.Optional(t.String()),
+  encoding: t.Optional(t.Union([t.Literal("binary"), t.Literal("base64")]))
+});
+
+const deltaQuery = t.Object({
+  codec: t.Optional(t.String()),
+  encoding: t.Optional(t.Union([t.Literal("binary"), t.Literal("base64")]))
+});
+
+// permessage-deflate is negotiated for every socket, but only frames published with compress=true
+// (the /feed/permessage-deflate topic) are actually deflated by the WebSocket layer
+const app = new Elysia({ websocket: { perMessageDeflate: true } })
+  .ws("/feed", {
+    query: configuredFeedQuery,
+    open(ws) {
+      const { codec, level, window, format = "json", layout = "rows", symbols, exchange } = ws.data.query;
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      const settings = checkSerializationFormat(format) ?? checkPayloadLayout(layout) ?? resolveCodecSettings(codec, level, window);
+      const filter = parseRowFilter(symbols, exchange);
+      if (typeof settings === "string" || typeof filter === "string") {
+        const reason = typeof settings === "string" ? settings : String(filter);
+        console.log(`❌ Rejected /feed client: ${reason}`);
+        ws.close(1008, reason);
+        return;
+      }
+
+      const config = registerFeedConfig(codec, settings, format, layout as PayloadLayout, filter);
+      console.log(`🎛️ Client connected to ${config.key} feed (${encoding})`);
+      const subscriber = trackSubscriber(ws, "/feed", encoding);
+      joinTopic(subscriber, config.key);
+      feedSessions.set(subscriber.id, { subscriber, config, encoding, paused: false, downgrade: null });
+    },
+    close(ws) {
+      untrackSubscriber(ws);
+      const session = feedSessions.get(String(ws.id));
+      if (!session) return;
+
+      console.log(`🎛️ Client disconnected from ${session.config.key} feed (${session.encoding})`);
+      feedSessions.delete(String(ws.id));
+    },
+    message(ws, message) {
+      const session = feedSessions.get(String(ws.id));
+      if (!session || answerFeedMessage(ws, message)) return;
+
+      const command = parseControlCommand(message);
+      const reply = typeof command === "string"
+        ? { op: "error", error: command }
+        : handleControlCommand(session, command);
+      console.log(`🎛️ Control ${reply.op}: ${JSON.stringify(reply)}`);
+      ws.send(JSON.stringify(reply));
+    }
+  })
+  .ws("/feed/gzip-stream", {
+    query: feedQuery,
+    open(ws) {
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`🗜️ Client connected to GZIP streaming context feed (${encoding})`);
+      addStreamingSubscriber(trackSubscriber(ws, "/feed/gzip-stream", encoding, { canDrop: false }), "gzip", encoding);
+    },
+    close(ws) {
+      console.log("🗜️ Client disconnected from GZIP streaming context feed");
+      untrackSubscriber(ws);
+      removeStreamingSubscriber(String(ws.id));
+    },
+    message(ws, message) {
+      answerFeedMessage(ws, message);
+    }
+  })
+  .ws("/feed/brotli-stream", {
+    query: feedQuery,
+    open(ws) {
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`⚡ Client connected to BROTLI streaming context feed (${encoding})`);
+      addStreamingSubscriber(trackSubscriber(ws, "/feed/brotli-stream", encoding, { canDrop: false }), "brotli", encoding);
+    },
+    close(ws) {
+      console.log("⚡ Client disconnected from BROTLI streaming context feed");
+      untrackSubscriber(ws);
+      removeStreamingSubscriber(String(ws.id));
+    },
+    message(ws, message) {
+      answerFeedMessage(ws, message);
+    }
+  })
+  .ws("/feed/zstd-stream", {
+    query: feedQuery,
+    open(ws) {
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`🔥 Client connected to ZSTD streaming context feed (${encoding})`);
+      addStreamingSubscriber(trackSubscriber(ws, "/feed/zstd-stream", encoding, { canDrop: false }), "zstd", encoding);
+    },
+    close(ws) {
+      console.log("🔥 Client disconnected from ZSTD streaming context feed");
+      untrackSubscriber(ws);
+      removeStreamingSubscriber(String(ws.id));
+    },
+    message(ws, message) {
+      answerFeedMessage(ws, message);
+    }
+  })
+  .ws("/feed/permessage-deflate", {
+    query: feedQuery,
     open(ws) {
-      console.log("📊 Client connected to NONE compression feed");
-      ws.subscribe("feed-none");
+      console.log("🌐 Client connected to PERMESSAGE-DEFLATE feed");
+      joinTopic(trackSubscriber(ws, "/feed/permessage-deflate", "binary"), PERMESSAGE_DEFLATE_FEED);
+      ws.subscribe(PERMESSAGE_DEFLATE_WIRE_TOPIC);
     },
     close(ws) {
-      console.log("📊 Client disconnected from NONE compression feed");
-      ws.unsubscribe("feed-none");
+      console.log("🌐 Client disconnected from PERMESSAGE-DEFLATE feed");
+      untrackSubscriber(ws);
+      ws.unsubscribe(PERMESSAGE_DEFLATE_WIRE_TOPIC);
     },
     message(ws, message) {
-      // Handle incoming messages if needed
+      answerFeedMessage(ws, message);
     }
   })
-  .ws("/feed/gzip", {
+  .ws("/feed/delta", {
+    query: deltaQuery,
     open(ws) {
-      console.log("🗜️ Client connected to GZIP compression feed");
-      ws.subscribe("feed-gzip");
+      const codec = ws.data.query.codec ?? "brotli";
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      if (!codecs.has(codec)) {
+        ws.close(1008, `codec must be one of ${[...codecs.keys()].join(", ")}`);
+        return;
+      }
+      console.log(`🧩 Client connected to DELTA feed (${codec}, ${encoding})`);
+      // Late joiners can't apply deltas yet, so their snapshot is the latest full dataset
+      joinTopic(trackSubscriber(ws, "/feed/delta", encoding, { snapshotFrame: () => deltaSnapshotFrame(codec) }), `delta-${codec}`);
     },
     close(ws) {
-      console.log("🗜️ Client disconnected from GZIP compression feed");
-      ws.unsubscribe("feed-gzip");
+      const codec = ws.data.query.codec ?? "brotli";
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      if (!codecs.has(codec)) return;
+      console.log(`🧩 Client disconnected from DELTA feed (${codec}, ${encoding})`);
+      untrackSubscriber(ws);
     },
     message(ws, message) {
-      // Handle incoming messages if needed
+      answerFeedMessage(ws, message);
     }
   })
-  .ws("/feed/brotli", {
+  .ws("/feed/zstd-dict", {
+    query: feedQuery,
     open(ws) {
-      console.log("⚡ Client connected to BROTLI compression feed");
-      ws.subscribe("feed-brotli");
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`📚 Client connected to ZSTD dictionary feed (${encoding})`);
+      joinTopic(trackSubscriber(ws, "/feed/zstd-dict", encoding), "zstd-dict");
     },
     close(ws) {
-      console.log("⚡ Client disconnected from BROTLI compression feed");
-      ws.unsubscribe("feed-brotli");
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`📚 Client disconnected from ZSTD dictionary feed (${encoding})`);
+      untrackSubscriber(ws);
     },
     message(ws, message) {
-      // Handle incoming messages if needed
+      answerFeedMessage(ws, message);
     }
   })
-  .ws("/feed/zstd", {
+  .ws("/feed/brotli-dict", {
+    query: feedQuery,
     open(ws) {
-      console.log("🔥 Client connected to ZSTD compression feed");
-      ws.subscribe("feed-zstd");
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`📘 Client connected to BROTLI dictionary feed (${encoding})`);
+      joinTopic(trackSubscriber(ws, "/feed/brotli-dict", encoding), "brotli-dict");
     },
     close(ws) {
-      console.log("🔥 Client disconnected from ZSTD compression feed");
-      ws.unsubscribe("feed-zstd");
+      const encoding = parseTransportEncoding(ws.data.query.encoding);
+      console.log(`📘 Client disconnected from BROTLI dictionary feed (${encoding})`);
+      untrackSubscriber(ws);
     },
     message(ws, message) {
-      // Handle incoming messages if needed
+      answerFeedMessage(ws, message);
+    }
+  })
+  .ws("/internal/wire-probe", {
+    // Loopback subscriber used by startWireProbe; not counted as a feed subscriber
+    query: t.Object({ token: t.Optional(t.String()) }),
+    beforeHandle({ query, request, server, status }) {
+      if (!isWireProbeRequest(server?.requestIP(request)?.address, query.token)) return status(403, "Forbidden");
+    },
+    open(ws) {
+      ws.subscribe(PERMESSAGE_DEFLATE_TOPIC);
+    },
+    close(ws) {
+      ws.unsubscribe(PERMESSAGE_DEFLATE_TOPIC);
     }
   })
   .get("/", () => new Response(htmlPage, {
     headers: { "Content-Type": "text/html" }
   }))
   .get("/health", () => ({ status: "OK", timestamp: Date.now() }))
-  .listen(3001);
+  // Decoder modules and binaries; the package version in the path keeps each URL's content fixed
+  .get("/vendor/:package/*", ({ params, status }) => serveVendorFile(wasmDecoders, params.package, params["*"]) ?? status(404, "Unknown file"))
+  .get("/metrics", () => new Response(renderMetrics(), {
+    headers: { "Content-Type": METRICS_CONTENT_TYPE }
+  }))
+  .get("/serializers", () => SERIALIZERS.map(serializer => ({
+    name: serializer.name,
+    label: serializer.label,
+    tag: serializerTag(serializer.name)
+  })))
+  .get("/codecs", () => [...codecs.values()].map(codec => ({
+    name: codec.name,
+    label: codec.label,
+    emoji: codec.emoji,
+    color: codec.color,
+    tag: codecTag(codec.name),
+    level: codec.level,
+    window: codec.window
+  })))
+  .get("/dict/zstd", () => [...zstdDictionaries.values()].map(dictionary => ({
+    id: formatDictionaryId(dictionary.id),
+    size: dictionary.bytes.length,
+    samples: dictionary.samples,
+    createdAt: dictionary.createdAt,
+    current: dictionary === currentZstdDictionary
+  })))
+  .get("/dict/zstd/:id", ({ params, status }) => {
+    const dictionary = zstdDictionaries.get(parseInt(params.id, 16));
+    if (!dictionary) {
+      return status(404, "Unknown dictionary");
+    }
+
+    // Ids are content hashes, so a given URL never changes
+    return new Response(dictionary.bytes, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Cache-Control": "public, max-age=31536000, immutable"
+      }
+    });
+  })
+  .get("/dict/brotli", () => brotliDictionary ? [{
+    id: formatDictionaryId(brotliDictionary.id),
+    size: brotliDictionary.bytes.length,
+    primerSize: brotliDictionary.primer.length
+  }] : [])
+  .get("/dict/brotli/:id", ({ params, status }) => {
+    if (!brotliDictionary || parseInt(params.id, 16) !== brotliDictionary.id) {
+      return status(404, "Unknown dictionary");
+    }
+
+    return new Response(brotliDictionary.bytes, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "public, max-age=31536000, immutable"
+      }
+    });
+  })
+  .get("/dict/brotli/:id/primer", ({ params, status }) => {
+    if (!brotliDictionary || parseInt(params.id, 16) !== brotliDictionary.id) {
+      return status(404, "Unknown dictionary");
+    }
+
+    return new Response(brotliDictionary.primer, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Cache-Control": "public, max-age=31536000, immutable"
+      }
+    });
+  })
+  .get("/feed/permessage-deflate/stats", () => ({
+    ...wireStats,
+    ratio: wireStats.wireBytes > 0 ? wireStats.payloadBytes / wireStats.wireBytes : 0
+  }))
+  .listen(serverConfig.port);
+
+startWireProbe(serverConfig.port);
 
 console.log(`
 🚀 Compression Comparison WebSocket Server running!
-🌐 Open: http://localhost:3001
-📊 Health: http://localhost:3001/health
-
-WebSocket Endpoints:
-  📊 No Compression: ws://localhost:3001/feed/none
-  🗜️ Gzip: ws://localhost:3001/feed/gzip  
-  ⚡ Brotli: ws://localhost:3001/feed/brotli
-  🔥 Zstd: ws://localhost:3001/feed/zstd
+🌐 Open: ${serverConfig.publicUrl}
+📊 Health: ${serverConfig.publicUrl}/health
+🧰 Codecs: ${serverConfig.publicUrl}/codecs
+🧬 Serializers: ${serverConfig.publicUrl}/serializers
+📈 Metrics: ${serverConfig.publicUrl}/metrics
+📡 Data source: ${dataSource.description}
+🧩 Vendored scripts: ${wasmDecoders.description}
+🧵 Compression: ${compressionPool ? `${COMPRESSION_WORKERS} workers (overrun policy: ${TICK_OVERRUN_POLICY})` : "inline"}
+
+WebSocket Endpoints (append &format=msgpack|cbor to change the serialization, &layout=columns for the columnar layout,
+&symbols=BTC/USD,ETH/USD&exchange=kraken to filter the rows, &encoding=base64 for the legacy text transport):
+${[...codecs.values()].map(codec => `  ${codec.emoji} ${codec.label}: ${feedBaseUrl}/feed?codec=${codec.name}`).join("\n")}
+
+Streaming Context Endpoints (one long-lived compressor per client):
+  🗜️ Gzip: ${feedBaseUrl}/feed/gzip-stream
+  ⚡ Brotli: ${feedBaseUrl}/feed/brotli-stream
+  🔥 Zstd: ${feedBaseUrl}/feed/zstd-stream
+
+Protocol-level compression:
+  🌐 permessage-deflate: ${feedBaseUrl}/feed/permessage-deflate
+
+Dictionary Compression:
+  📚 Zstd + trained dictionary: ${feedBaseUrl}/feed/zstd-dict
+  📖 Dictionaries: ${serverConfig.publicUrl}/dict/zstd
+  📘 Brotli + shared dictionary: ${feedBaseUrl}/feed/brotli-dict
+  📖 Dictionary: ${serverConfig.publicUrl}/dict/brotli
+
+Delta Endpoint (?codec=none|gzip|brotli|zstd):
+  🧩 Delta: ${feedBaseUrl}/feed/delta?codec=brotli
+  📏 Wire stats: ${serverConfig.publicUrl}/feed/permessage-deflate/stats
 `);
 
-// --- Generate large dataset for better compression ---
-function generateLargePriceDataset(count: number): PriceData[] {
-  console.log(`🏗️ Generating ${count} PriceData items for better compression demonstration...`);
-
-  const symbols = ["BTC/USD", "ETH/USD", "ADA/USD", "DOT/USD", "SOL/USD", "AVAX/USD", "MATIC/USD", "LINK/USD"];
-  const exchanges = ["binance", "coinbase", "kraken", "ftx", "huobi", "okex", "bybit", "kucoin"];
-  const markets = ["crypto", "forex", "stocks", "commodities"];
-
-  const dataset: PriceData[] = [];
-  const baseTime = Date.now();
-
-  for (let i = 0; i < count; i++) {
-    const symbol = symbols[i % symbols.length] || "BTC/USD";
-    const exchange = exchanges[i % exchanges.length] || "binance";
-    const market = markets[i % markets.length] || "crypto";
-
-    // Create realistic price patterns based on symbol
-    const basePrice = symbol.includes("BTC") ? 45000 + Math.sin(i / 100) * 5000 :
-      symbol.includes("ETH") ? 3000 + Math.sin(i / 80) * 500 :
-        symbol.includes("SOL") ? 100 + Math.sin(i / 60) * 20 :
-          50 + Math.sin(i / 40) * 10;
-
-    const noise = (Math.random() - 0.5) * (basePrice * 0.02); // 2% noise
-    const price = (basePrice + noise).toFixed(2);
-
-    const priceNum = parseFloat(price);
-    const changeAmount = ((Math.random() - 0.5) * priceNum * 0.05).toFixed(2); // 5% max change
-    const changePercent = priceNum > 0 ? ((parseFloat(changeAmount) / priceNum) * 100).toFixed(2) : "0.00";
-
-    const priceData: PriceData = {
-      ts: baseTime + (i * 1000), // 1 second intervals
-      price: price,
-      compression: "none", // Will be set by compression functions
-      originalSize: 0, // Will be calculated
-      compressedSize: 0 // Will be calculated
-    };
+// Train the first zstd dictionary from rows of the data source, then measure it on a held-out dataset
+function formatDictionarySaving(plainBytes: number, dictBytes: number): string {
+  const change = (1 - dictBytes / plainBytes) * 100;
+  return `${Math.abs(change).toFixed(1)}% ${change < 0 ? "larger" : "smaller"} with dictionary`;
+}
 
-    // Add extra market data for more realistic compression scenarios
-    const extraData = {
-      id: i + 1,
-      symbol: symbol,
-      volume: Math.floor(Math.random() * 10000) + 1000,
-      change: changeAmount,
-      changePercent: changePercent,
-      high: (priceNum + Math.random() * priceNum * 0.03).toFixed(2),
-      low: (priceNum - Math.random() * priceNum * 0.03).toFixed(2),
-      market: market,
-      exchange: exchange,
-      bid: (priceNum - Math.random() * priceNum * 0.001).toFixed(2),
-      ask: (priceNum + Math.random() * priceNum * 0.001).toFixed(2),
-      timestamp: baseTime + (i * 1000),
-      trades_count: Math.floor(Math.random() * 100) + 10,
-      vwap: (priceNum + (Math.random() - 0.5) * priceNum * 0.001).toFixed(2)
-    };
+function datasetSamples(dataset: SourceRow[]): Uint8Array[] {
+  return dataset.map(item => Buffer.from(JSON.stringify({ ...item, messageId: 0 })));
+}
+
+async function trainInitialZstdDictionary() {
+  const startTime = performance.now();
+  const samples = datasetSamples(dataSource.sample(2 * DATASET_SIZE));
+  const dictionary = await registerZstdDictionary(trainZstdDictionary(samples, ZSTD_DICTIONARY_SIZE), samples.length);
+  const trainingTime = performance.now() - startTime;
 
-    // Merge extra data into the price data for more realistic compression
-    const fullPriceData = Object.assign(priceData, extraData);
-    dataset.push(fullPriceData);
+  const heldOut = dataSource.sample(DATASET_SIZE);
+  let itemPlainBytes = 0;
+  let itemDictBytes = 0;
+  for (const item of heldOut.slice(0, 200)) {
+    const input = Buffer.from(JSON.stringify([item]));
+    itemPlainBytes += compressBytes("zstd", input)?.compressedSize ?? 0;
+    itemDictBytes += compressWithZstdDictionary(input)?.compressedSize ?? 0;
   }
+  const heldOutInput = Buffer.from(JSON.stringify(heldOut));
+  const fullPlainBytes = compressBytes("zstd", heldOutInput)?.compressedSize ?? 0;
+  const fullDictBytes = compressWithZstdDictionary(heldOutInput)?.compressedSize ?? 0;
+
+  console.log(`
+📚 Trained zstd dictionary ${formatDictionaryId(dictionary.id)} (${dictionary.bytes.length.toLocaleString()} bytes from ${samples.length} samples in ${trainingTime.toFixed(0)}ms)
+  🔹 Single items (200): ${itemPlainBytes.toLocaleString()} → ${itemDictBytes.toLocaleString()} bytes (${formatDictionarySaving(itemPlainBytes, itemDictBytes)})
+  🔸 Full dataset (${heldOut.length} items): ${fullPlainBytes.toLocaleString()} → ${fullDictBytes.toLocaleString()} bytes (${formatDictionarySaving(fullPlainBytes, fullDictBytes)})
+  `);
+}
 
-  console.log(`✅ Generated ${count} items. Sample item size: ~${JSON.stringify(dataset[0]).length} bytes`);
-  return dataset;
+trainInitialZstdDictionary().catch((error) => console.error("❌ Failed to train zstd dictionary:", error));
+
+// The Brotli shared dictionary is a few representative rows (for the generator, one per symbol/exchange
+// and every market), which covers the field keys and the repeated string values of a tick
+async function buildBrotliDictionary() {
+  const rows = dataSource.sample(8).map(item => ({ ...item, messageId: 0 }));
+  brotliDictionary = await createBrotliDictionary(Buffer.from(JSON.stringify(rows)));
+  console.log(`📘 Brotli shared dictionary ${formatDictionaryId(brotliDictionary.id)} (${brotliDictionary.bytes.length.toLocaleString()} bytes, primer ${brotliDictionary.primer.length.toLocaleString()} bytes)`);
 }
 
-// Generate the large dataset at startup
-const DATASET_SIZE = 1000;
-const largePriceDataset = generateLargePriceDataset(DATASET_SIZE);
+buildBrotliDictionary().catch((error) => console.error("❌ Failed to build Brotli dictionary:", error));
 
 // --- Data broadcasting with large dataset ---
 let messageCounter = 0;
 
-setInterval(() => {
+// Dataset of the previous tick, the base for the next delta patch
+let deltaState: DeltaState | null = null;
+
+// Dataset of the latest patch published per codec, which a snapshot must match to carry its sequence number
+const publishedDeltaStates = new Map<CompressionType, DeltaState>();
+
+// The full dataset for delta subscribers that can't apply the next patch (late joiners, subscribers
+// resuming after dropped frames and resyncs); null before the first tick
+function deltaSnapshotFrame(codec: CompressionType): Uint8Array | null {
+  const state = publishedDeltaStates.get(codec) ?? deltaState;
+  if (!state) return null;
+  const snapshot = compressDeltaMessage(codec, { kind: "snapshot", messageId: state.messageId, items: state.items }, state.messageId, state.generatedAt);
+  if (!snapshot) return null;
+
+  setFrameSequence(snapshot.frame, feedHistories.get(`delta-${codec}`)?.sequence ?? 0, true);
+  return snapshot.frame;
+}
+
+// Feed the message through every streaming subscriber's own compressor. The envelope's original
+// size tells the client how many bytes to read back from its long-lived decompressor.
+function publishStreaming(messageId: number, generatedAt: number, payload: Uint8Array, payloadChecksum: number) {
+  for (const subscriber of streamingSubscribers.values()) {
+    if (checkBacklog(subscriber.subscriber) === "skip") continue;
+
+    // Includes waiting for the subscriber's previous flush, which has normally finished long before
+    const startTime = performance.now();
+    const { compressor } = subscriber;
+    compressor.compress(payload).then((chunk) => {
+      // A resync restarted the stream meanwhile, so the client couldn't decode this chunk
+      if (compressor !== subscriber.compressor) return;
+
+      const result = { compressed: chunk, originalSize: payload.length, compressedSize: chunk.length, compressMs: performance.now() - startTime };
+      recordCompression(subscriber.codec, feedMetricLabels(`${subscriber.codec}-stream`), result);
+      const frame = wrapFrame({
+        messageId,
+        generatedAt,
+        codec: subscriber.codec,
+        settings: serverConfig.streaming[subscriber.codec],
+        streamChunk: true,
+        checksum: payloadChecksum
+      }, result);
+      recordFrame(subscriber.history, frame, subscriber.streamStart);
+      subscriber.streamStart = false;
+      if (!subscriber.subscriber.closed) sendTo(subscriber.subscriber, encodeForTransport(frame, subscriber.encoding));
+    }, () => {
+      // The stream failed: the next message starts a fresh one, sent as a snapshot the client can
+      // decode without the chunks before it
+      if (compressor === subscriber.compressor && streamingSubscribers.has(subscriber.subscriber.id)) restartStream(subscriber);
+    });
+  }
+}
+
+// Compressions of consecutive ticks can settle out of order (tick.overrunPolicy=queue runs them side
+// by side on the worker pool), so a feed publishes each tick's frame after the previous tick's
+const feedPublishChains = new Map<string, Promise<void>>();
+
+function publishInOrder<T>(feed: string, result: Promise<T>, publish: (result: T) => void) {
+  const previous = feedPublishChains.get(feed) ?? Promise.resolve();
+  const chain = Promise.all([result, previous])
+    .then(([value]) => publish(value))
+    .catch((error) => console.error(`❌ Cannot publish ${feed}:`, error));
+  feedPublishChains.set(feed, chain);
+  chain.then(() => {
+    if (feedPublishChains.get(feed) === chain) feedPublishChains.delete(feed);
+  });
+}
+
+// Number an enveloped frame and publish it to every transport encoding that currently has subscribers
+function publishFrame(feed: string, frame: Uint8Array, labels = feedMetricLabels(feed)) {
+  const startTime = performance.now();
+  let history = feedHistories.get(feed);
+  if (!history) {
+    history = createFeedHistory();
+    feedHistories.set(feed, history);
+  }
+  recordFrame(history, frame);
+
+  for (const encoding of TRANSPORT_ENCODINGS) {
+    const topic = feedTopic(feed, encoding);
+    if (!topicSubscribers.get(topic)?.size) continue;
+
+    publishToTopic(topic, encodeForTransport(frame, encoding));
+  }
+  publishSeconds.observe(labels, (performance.now() - startTime) / 1000);
+}
+
+function broadcastTick(rows: SourceRow[]) {
+  const tickStartTime = performance.now();
+
+  // The previous tick is still on the worker pool (inline ticks always finish synchronously)
+  if (compressionPool && compressionPool.pending() > 0) {
+    tickOverruns.inc({ policy: TICK_OVERRUN_POLICY });
+    if (TICK_OVERRUN_POLICY === "skip") {
+      console.log(`⏭️ Skipping tick: dataset #${messageCounter} is still compressing`);
+      return;
+    }
+    if (TICK_OVERRUN_POLICY === "cancel") {
+      console.log(`✂️ Cancelled ${compressionPool.cancelAll()} compressions of dataset #${messageCounter}`);
+    }
+  }
+
   messageCounter++;
+  const tickId = messageCounter;
+  // Start of every frame's end-to-end latency (the envelope's generation time)
+  const generatedAt = Date.now();
 
-  // Send the entire large dataset each time to demonstrate compression benefits
-  const currentDataset = largePriceDataset.map(item => ({
-    ...item,
-    ts: Date.now(), // Update timestamp to current time
-    messageId: messageCounter
-  }));
+  const currentDataset = rows.map(item => ({ ...item, messageId: messageCounter }));
 
-  console.log(`📦 Broadcasting dataset #${messageCounter} with ${currentDataset.length} items...`);
+  // Feeds nobody receives start over, so a late joiner never gets a stale snapshot
+  for (const feed of feedHistories.keys()) {
+    if (!hasSubscribers(feed)) feedHistories.delete(feed);
+  }
 
-  // Send to each compression type feed
+  console.log(`📦 Broadcasting dataset #${messageCounter} with ${currentDataset.length} items...`);
 
-  // 1. No compression
+  // 1. Filter, then serialize once per filter, format and layout; every codec compresses these bytes
+  // (shared with the workers without copying)
   const noneResult = noCompression(currentDataset);
-  if (noneResult) {
-    app.server?.publish("feed-none", noneResult.compressed);
+  const filteredDatasets = new Map<string, typeof currentDataset>();
+  const tickRows = (filter: RowFilter) => {
+    const key = rowFilterKey(filter);
+    let rows = filteredDatasets.get(key);
+    if (!rows) {
+      rows = filterRows(currentDataset, filter);
+      filteredDatasets.set(key, rows);
+    }
+    return rows;
+  };
+  const columnarDatasets = new Map<string, object>();
+  const tickData = (layout: PayloadLayout, filter: RowFilter) => {
+    if (layout === "rows") return tickRows(filter);
+    const key = rowFilterKey(filter);
+    let columns = columnarDatasets.get(key);
+    if (!columns) {
+      columns = toColumnar(tickRows(filter)) ?? tickRows(filter);
+      columnarDatasets.set(key, columns);
+    }
+    return columns;
+  };
+  const inputKey = (format: SerializationFormat, layout: PayloadLayout, filter: RowFilter) => `${format}/${layout}/${rowFilterKey(filter)}`;
+  const tickInputs = new Map<string, Uint8Array>();
+  const tickInput = (format: SerializationFormat, layout: PayloadLayout, filter: RowFilter = NO_FILTER) => {
+    const key = inputKey(format, layout, filter);
+    let input = tickInputs.get(key);
+    if (!input) {
+      input = format === "json" && layout === "rows" && !isFiltered(filter)
+        ? noneResult.compressed
+        : serializers.get(format)?.serialize(tickData(layout, filter)) ?? new Uint8Array();
+      if (compressionPool) input = toSharedBytes(input);
+      tickInputs.set(key, input);
+    }
+    return input;
+  };
+  // CRC-32 of each serialized input for the frame envelopes; the JSON rows checksum also covers the
+  // streaming and dictionary feeds, which compress the same JSON
+  const tickChecksums = new Map<string, number>();
+  const tickChecksum = (format: SerializationFormat, layout: PayloadLayout, filter: RowFilter = NO_FILTER) => {
+    const key = inputKey(format, layout, filter);
+    let value = tickChecksums.get(key);
+    if (value === undefined) {
+      value = checksum(tickInput(format, layout, filter));
+      tickChecksums.set(key, value);
+    }
+    return value;
+  };
+
+  // Results of this tick by configuration key, so no configuration is compressed twice
+  const tickResults = new Map<string, Promise<CompressionResult | null>>();
+  tickResults.set("none", Promise.resolve(noneResult));
+  const compressConfig = (codec: CompressionType, settings: CodecSettings, format: SerializationFormat = "json", layout: PayloadLayout = "rows", filter: RowFilter = NO_FILTER) => {
+    const key = formatConfigKey(codec, settings, format, layout, filter);
+    let result = tickResults.get(key);
+    if (!result) {
+      result = compressTick(codec, settings, tickInput(format, layout, filter)).then((result) => {
+        if (result) recordCompression(codec, configMetricLabels({ codec, settings, format, layout, filter }), result);
+        return result;
+      });
+      tickResults.set(key, result);
+    }
+    return result;
+  };
+  const compressDefault = (codec: CompressionType) => {
+    const entry = codecs.get(codec);
+    return entry ? compressConfig(codec, defaultCodecSettings(entry)) : Promise.resolve(null);
+  };
+
+  // 2. Baseline codecs with their default settings (always computed, for the stats below)
+  const gzipResult = compressDefault("gzip");
+  const brotliResult = compressDefault("brotli");
+  const zstdResult = compressDefault("zstd");
+
+  // 3. Every /feed configuration with subscribers, compressed once per tick and published when ready
+  for (const config of feedConfigs.values()) {
+    if (!hasSubscribers(config.key)) {
+      feedConfigs.delete(config.key);
+      continue;
+    }
+
+    publishInOrder(config.key, compressConfig(config.codec, config.settings, config.format, config.layout, config.filter), (result) => {
+      if (result) {
+        const frame = wrapFrame({
+          messageId: tickId,
+          generatedAt,
+          codec: config.codec,
+          format: config.format,
+          settings: config.settings,
+          checksum: tickChecksum(config.format, config.layout, config.filter)
+        }, result);
+        publishFrame(config.key, frame, configMetricLabels(config));
+      }
+    });
+  }
+
+  // 4. Streaming context compression (per-subscriber compressors, fed the same JSON bytes)
+  if (streamingSubscribers.size > 0) {
+    publishStreaming(tickId, generatedAt, noneResult.compressed, tickChecksum("json", "rows"));
+  }
+
+  // 5. permessage-deflate: the raw JSON text, deflated by the WebSocket layer itself
+  if (topicSubscribers.get(PERMESSAGE_DEFLATE_TOPIC)?.size) {
+    // Sent before publishing: the WebSocket layer deflates inside publish(), as part of the transport
+    const sentAt = Date.now();
+    permessageDeflateSequence++;
+    publishToTopic(PERMESSAGE_DEFLATE_TOPIC, Buffer.from(noneResult.compressed).toString("utf8"), true);
+    trackWireFrame({ messageId: messageCounter, sequence: permessageDeflateSequence, payloadBytes: noneResult.originalSize, generatedAt, sentAt });
   }
 
-  // 2. Gzip compression
-  const gzipResult = compressWithGzip(currentDataset);
-  if (gzipResult) {
-    app.server?.publish("feed-gzip", gzipResult.compressed);
+  // 6. Zstd with the current trained dictionary (frames tagged with the dictionary id)
+  if (hasSubscribers("zstd-dict")) {
+    const zstdDictResult = compressWithZstdDictionary(noneResult.compressed);
+    if (zstdDictResult) {
+      recordCompression("zstd", feedMetricLabels("zstd-dict"), zstdDictResult);
+      publishFrame("zstd-dict", wrapFrame({ messageId: tickId, generatedAt, codec: "zstd", settings: { level: ZSTD_DICTIONARY_LEVEL }, dictionaryId: zstdDictResult.dictionaryId, checksum: tickChecksum("json", "rows") }, zstdDictResult));
+      zstdResult.then((plain) => {
+        console.log(`📚 Zstd+dict #${tickId}: ${zstdDictResult.compressedSize.toLocaleString()} bytes (plain zstd ${plain?.compressedSize.toLocaleString() ?? "-"} bytes)`);
+      });
+    }
   }
 
-  // 3. Brotli compression
-  const brotliResult = compressWithBrotli(currentDataset);
-  if (brotliResult) {
-    app.server?.publish("feed-brotli", brotliResult.compressed);
+  // 7. Brotli with the shared dictionary as window prefix (async: uses a streaming compressor)
+  if (hasSubscribers("brotli-dict")) {
+    publishInOrder("brotli-dict", Promise.all([compressWithBrotliDictionary(noneResult.compressed), brotliResult]), ([brotliDictResult, plain]) => {
+      if (!brotliDictResult) return;
+      recordCompression("brotli", feedMetricLabels("brotli-dict"), brotliDictResult);
+      brotliDictionaryPrimerSeconds.observe({}, brotliDictResult.primerMs / 1000);
+      publishFrame("brotli-dict", wrapFrame({ messageId: tickId, generatedAt, codec: "brotli", settings: BROTLI_DICTIONARY_SETTINGS, dictionaryId: brotliDictResult.dictionaryId, checksum: tickChecksum("json", "rows") }, brotliDictResult));
+      console.log(`📘 Brotli+dict #${tickId}: ${brotliDictResult.compressedSize.toLocaleString()} bytes (plain brotli ${plain?.compressedSize.toLocaleString() ?? "-"} bytes)`);
+    });
   }
 
-  // 4. Zstd compression (using Bun's native zstd)
-  const zstdResult = compressWithZstd(currentDataset);
-  if (zstdResult) {
-    app.server?.publish("feed-zstd", zstdResult.compressed);
+  // 8. Delta encoding: only what changed since the previous message, compressed with each codec
+  // (patches are small, so they are compressed inline once the snapshot size is known)
+  const nextDeltaState: DeltaState = { messageId: messageCounter, generatedAt, items: currentDataset };
+  const deltaPatch = createDeltaPatch(deltaState, nextDeltaState);
+  deltaState = nextDeltaState;
+
+  const deltaJsonSizes: Promise<number>[] = [];
+  for (const codec of codecs.keys()) {
+    if (!hasSubscribers(`delta-${codec}`)) {
+      publishedDeltaStates.delete(codec);
+      continue;
+    }
+
+    deltaJsonSizes.push(compressDefault(codec).then((snapshot) => {
+      const delta = compressDeltaMessage(codec, { ...deltaPatch, snapshotSize: snapshot?.compressedSize ?? 0 }, tickId, generatedAt);
+      if (!delta) return 0;
+
+      recordCompression(codec, feedMetricLabels(`delta-${codec}`), delta.result);
+      publishedDeltaStates.set(codec, nextDeltaState);
+      publishFrame(`delta-${codec}`, delta.frame);
+      return delta.result.originalSize;
+    }));
   }
 
   // Log compression comparison every message (since we're sending big data)
-  console.log(`
-📈 Dataset #${messageCounter} Compression Stats (${currentDataset.length} items):
+  Promise.all([gzipResult, brotliResult, zstdResult]).then(([gzipResult, brotliResult, zstdResult]) => {
+    console.log(`
+📈 Dataset #${tickId} Compression Stats (${currentDataset.length} items):
   📊 None: ${noneResult.compressedSize.toLocaleString()} bytes (${(noneResult.compressedSize / 1024).toFixed(1)} KB)
-  🗜️ Gzip: ${gzipResult.compressedSize.toLocaleString()} bytes (${(gzipResult.compressedSize / 1024).toFixed(1)} KB) - ${((1 - gzipResult.compressedSize / noneResult.compressedSize) * 100).toFixed(1)}% savings
+  🗜️ Gzip: ${gzipResult?.compressedSize.toLocaleString() || 0} bytes (${((gzipResult?.compressedSize || 0) / 1024).toFixed(1)} KB) - ${gzipResult ? ((1 - gzipResult.compressedSize / noneResult.compressedSize) * 100).toFixed(1) : 0}% savings
   ⚡ Brotli: ${brotliResult?.compressedSize.toLocaleString() || 0} bytes (${((brotliResult?.compressedSize || 0) / 1024).toFixed(1)} KB) - ${brotliResult ? ((1 - brotliResult.compressedSize / noneResult.compressedSize) * 100).toFixed(1) : 0}% savings
   🔥 Zstd: ${zstdResult?.compressedSize.toLocaleString() || 0} bytes (${((zstdResult?.compressedSize || 0) / 1024).toFixed(1)} KB) - ${zstdResult ? ((1 - zstdResult.compressedSize / noneResult.compressedSize) * 100).toFixed(1) : 0}% savings
-  🎯 Compression Ratio: Gzip ${(noneResult.compressedSize / gzipResult.compressedSize).toFixed(2)}x, Brotli ${brotliResult ? (noneResult.compressedSize / brotliResult.compressedSize).toFixed(2) : 0}x, Zstd ${zstdResult ? (noneResult.compressedSize / zstdResult.compressedSize).toFixed(2) : 0}x
+  🎯 Compression Ratio: Gzip ${gzipResult ? (noneResult.compressedSize / gzipResult.compressedSize).toFixed(2) : 0}x, Brotli ${brotliResult ? (noneResult.compressedSize / brotliResult.compressedSize).toFixed(2) : 0}x, Zstd ${zstdResult ? (noneResult.compressedSize / zstdResult.compressedSize).toFixed(2) : 0}x
   📏 Original JSON: ${(noneResult.originalSize / 1024).toFixed(1)} KB
   `);
+  });
+
+  Promise.all(deltaJsonSizes).then((sizes) => {
+    const deltaJsonSize = Math.max(0, ...sizes);
+    if (deltaJsonSize > 0) {
+      console.log(`🧩 Delta #${tickId} (${deltaPatch.kind}): ${(deltaJsonSize / 1024).toFixed(1)} KB JSON${deltaPatch.kind === "delta" ? `, ${deltaPatch.changes.length} changed items` : ""}`);
+    }
+  });
+
+  tickSeconds.observe({ mode: compressionMode }, (performance.now() - tickStartTime) / 1000);
+  Promise.all(tickResults.values()).then(() => {
+    tickCompletionSeconds.observe({ mode: compressionMode }, (performance.now() - tickStartTime) / 1000);
+  });
+}
+
+// Ticks are scheduled against the source's timeline rather than after the previous tick, so the time
+// spent broadcasting does not stretch the pacing (the generator still sends every 2 seconds)
+let nextTickAt = performance.now();
+
+function scheduleNextTick() {
+  const batch = dataSource.next();
+  if (!batch) {
+    console.log("🏁 Data source exhausted, no more messages will be broadcast");
+    return;
+  }
+
+  nextTickAt += batch.delayMs;
+  setTimeout(() => {
+    broadcastTick(batch.rows);
+    scheduleNextTick();
+  }, Math.max(nextTickAt - performance.now(), 0));
+}
 
-}, 2000); // Send every 2 seconds to allow time to see the large data compression benefits
\ No newline at end of file
+scheduleNextTick();
\ No newline at end of file
@@ -0,0 +1,82 @@
+// --- Payload layouts ---
+// How a tick's rows are arranged before serialization. "rows" is the dataset as is: an array of
+// objects that repeat every key. "columns" is a struct of arrays: one column per field, with
+// low-cardinality strings dictionary-encoded and toFixed strings sent as numbers. The batch is an
+// object where rows are an array, so clients tell the layouts apart by shape and need no frame tag.
+
+export type PayloadLayout = "rows" | "columns";
+
+export const PAYLOAD_LAYOUTS: PayloadLayout[] = ["rows", "columns"];
+
+export type Column =
+  // Each value is an index into the dictionary
+  | { name: string; type: "dictionary"; dictionary: string[]; values: number[] }
+  // Numeric strings with a fixed number of decimals, restored with toFixed(decimals). Values that
+  // toFixed cannot reproduce (e.g. "-0.00") are listed in exceptions as [row, text] and sent as null.
+  | { name: string; type: "decimal"; decimals: number; values: (number | null)[]; exceptions: [number, string][] }
+  | { name: string; type: "values"; values: unknown[] };
+
+export interface ColumnarBatch {
+  layout: "columns";
+  length: number;
+  columns: Column[];
+}
+
+const DECIMAL_PATTERN = /^-?\d+(?:\.(\d+))?$/;
+
+export function checkPayloadLayout(layout: string): string | null {
+  return (PAYLOAD_LAYOUTS as string[]).includes(layout) ? null : `layout must be one of ${PAYLOAD_LAYOUTS.join(", ")}`;
+}
+
+function decimalPlaces(values: unknown[]): number | null {
+  let decimals: number | null = null;
+  for (const value of values) {
+    const match = typeof value === "string" ? DECIMAL_PATTERN.exec(value) : null;
+    if (!match) return null;
+    const places = match[1]?.length ?? 0;
+    if (decimals !== null && places !== decimals) return null;
+    decimals = places;
+  }
+  return decimals;
+}
+
+function encodeColumn(name: string, values: unknown[]): Column {
+  const decimals = decimalPlaces(values);
+  if (decimals !== null) {
+    const exceptions: [number, string][] = [];
+    const numbers = (values as string[]).map((text, row) => {
+      const number = Number(text);
+      if (number.toFixed(decimals) === text) return number;
+      exceptions.push([row, text]);
+      return null;
+    });
+    return { name, type: "decimal", decimals, values: numbers, exceptions };
+  }
+
+  // Dictionary-encode string columns that repeat a value at least every other row on average
+  if (values.every(value => typeof value === "string")) {
+    const dictionary = [...new Set(values as string[])];
+    if (dictionary.length * 2 <= values.length) {
+      const indexes = new Map(dictionary.map((value, index) => [value, index]));
+      return { name, type: "dictionary", dictionary, values: (values as string[]).map(value => indexes.get(value) ?? 0) };
+    }
+  }
+
+  return { name, type: "values", values };
+}
+
+// Null when the rows are not objects with the same keys; such ticks are sent as rows
+export function toColumnar(rows: readonly object[]): ColumnarBatch | null {
+  const [first] = rows;
+  if (!first) return { layout: "columns", length: 0, columns: [] };
+
+  const names = Object.keys(first);
+  const uniform = rows.every(row => !Array.isArray(row) && Object.keys(row).length === names.length && names.every(name => name in row));
+  if (!uniform) return null;
+
+  return {
+    layout: "columns",
+    length: rows.length,
+    columns: names.map(name => encodeColumn(name, rows.map(row => (row as Record<string, unknown>)[name])))
+  };
+}
@@ -0,0 +1,417 @@
+import { parseArgs } from "util";
+import { codecs, type CompressionType } from "./codecs";
+import { readFrame } from "./envelope";
+
+// --- Load test ---
+// Ramps simulated /feed subscribers against a running server, one codec and concurrency level at a
+// time, and reports what the publish fan-out costs: client receive latency, dropped and late
+// messages, the server's tick and publish durations and its CPU and memory.
+//
+//   bun run start &
+//   bun run loadtest --codecs gzip,zstd --clients 10,100,500 --duration 15 --decode
+//
+// Each step opens the clients, waits for the warmup, measures for the duration and closes them
+// again. With --decode every client decompresses and parses each frame like a real consumer. The
+// clients share this process, so its own CPU is reported too: near 100% means the load generator,
+// not the server, was the bottleneck (run it on another machine for large counts).
+
+const { values: options } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    url: { type: "string", default: "http://localhost:3001" },
+    codecs: { type: "string", default: "none,gzip,brotli,zstd" },
+    clients: { type: "string", default: "10,50,100" },
+    duration: { type: "string", default: "10" },
+    warmup: { type: "string", default: "3" },
+    decode: { type: "boolean", default: false },
+    // A message is late when it arrives more than this long after it was generated
+    "late-ms": { type: "string", default: "2000" },
+    out: { type: "string", default: "out/loadtest" }
+  }
+});
+
+// Connections opened at once while ramping up a step
+const CONNECT_BATCH = 50;
+const CONNECT_TIMEOUT_MS = 10_000;
+const CLOCK_PINGS = 5;
+const METRICS_POLL_MS = 1000;
+
+interface StepResult {
+  codec: CompressionType;
+  clients: number;
+  connected: number;
+  seconds: number;
+  // Frames received in the window, and frames that were due: every tick seen by any client, for every client
+  messages: number;
+  expected: number;
+  dropped: number;
+  late: number;
+  errors: number;
+  receiveP50Ms: number | null;
+  receiveP95Ms: number | null;
+  receiveP99Ms: number | null;
+  decodeMeanMs: number | null;
+  ticks: number;
+  tickOverruns: number;
+  tickP95Ms: number | null;
+  completionP95Ms: number | null;
+  publishP95Ms: number | null;
+  eventLoopLagP95Ms: number | null;
+  serverCpuPercent: number;
+  serverPeakRssMB: number;
+  clientCpuPercent: number;
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function parseIntegerList(name: string, value: string): number[] {
+  const numbers = value.split(",").filter(Boolean).map(Number);
+  if (numbers.length === 0 || !numbers.every(number => Number.isInteger(number) && number > 0)) {
+    fail(`--${name} must be a comma-separated list of positive integers`);
+  }
+  return numbers;
+}
+
+function parseSeconds(name: string, value: string, min: number): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < min) fail(`--${name} must be a number of at least ${min}`);
+  return seconds;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const wallClock = () => performance.timeOrigin + performance.now();
+
+// Nearest-rank percentile; null without samples
+function percentile(samples: number[], p: number): number | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil(p / 100 * sorted.length) - 1, 0)] ?? null;
+}
+
+// --- Server metrics (GET /metrics) ---
+// Samples by series, e.g. `broadcast_tick_duration_seconds_bucket{mode="inline",le="0.1"}`
+type MetricSamples = Map<string, number>;
+
+async function scrapeMetrics(baseUrl: string): Promise<MetricSamples> {
+  const response = await fetch(`${baseUrl}/metrics`);
+  if (!response.ok) fail(`GET /metrics failed with ${response.status}`);
+
+  const samples: MetricSamples = new Map();
+  for (const line of (await response.text()).split("\n")) {
+    if (!line || line.startsWith("#")) continue;
+    const split = line.lastIndexOf(" ");
+    samples.set(line.slice(0, split), Number(line.slice(split + 1)));
+  }
+  return samples;
+}
+
+const seriesName = (series: string) => series.split("{")[0];
+
+// Sum of a metric over all its label sets
+function sumMetric(samples: MetricSamples, name: string): number {
+  let sum = 0;
+  for (const [series, value] of samples) {
+    if (seriesName(series) === name) sum += value;
+  }
+  return sum;
+}
+
+// Cumulative bucket counts by upper bound, summed over all label sets
+function histogramBuckets(samples: MetricSamples, name: string): Map<number, number> {
+  const buckets = new Map<number, number>();
+  for (const [series, value] of samples) {
+    if (seriesName(series) !== `${name}_bucket`) continue;
+    const bound = series.match(/le="([^"]+)"/)?.[1];
+    if (!bound) continue;
+    const upper = bound === "+Inf" ? Infinity : Number(bound);
+    buckets.set(upper, (buckets.get(upper) ?? 0) + value);
+  }
+  return buckets;
+}
+
+// Quantile of the observations between two scrapes, interpolated within the bucket like
+// Prometheus' histogram_quantile (in milliseconds; null without observations)
+function histogramQuantileMs(before: MetricSamples, after: MetricSamples, name: string, q: number): number | null {
+  const start = histogramBuckets(before, name);
+  const buckets = [...histogramBuckets(after, name)]
+    .map(([upper, count]) => [upper, count - (start.get(upper) ?? 0)] as const)
+    .sort(([a], [b]) => a - b);
+  const total = buckets[buckets.length - 1]?.[1] ?? 0;
+  if (total === 0) return null;
+
+  const rank = q * total;
+  let lower = 0;
+  let below = 0;
+  for (const [upper, count] of buckets) {
+    if (count >= rank) {
+      // The +Inf bucket has no upper bound to interpolate towards
+      if (upper === Infinity) return lower * 1000;
+      return (lower + (upper - lower) * ((rank - below) / Math.max(count - below, 1))) * 1000;
+    }
+    lower = upper;
+    below = count;
+  }
+  return lower * 1000;
+}
+
+// --- Simulated clients ---
+interface ClientState {
+  socket: WebSocket;
+  messageIds: Set<number>;
+  // Resolves the pong of a clock ping in flight, with null when the socket closes
+  pong: ((reply: { clientTime: number; serverTime: number } | null) => void) | null;
+}
+
+interface StepSamples {
+  measuring: boolean;
+  // Server clock minus this process' clock
+  clockOffset: number;
+  receiveMs: number[];
+  decodeMs: number[];
+  late: number;
+  errors: number;
+}
+
+const textDecoder = new TextDecoder();
+
+function openClient(wsUrl: string, codec: CompressionType, samples: StepSamples, lateMs: number): Promise<ClientState | null> {
+  const codecEntry = codecs.get(codec);
+  const socket = new WebSocket(`${wsUrl}/feed?codec=${encodeURIComponent(codec)}`);
+  socket.binaryType = "arraybuffer";
+  const client: ClientState = { socket, messageIds: new Set(), pong: null };
+
+  socket.onmessage = ({ data }) => {
+    const receivedAt = wallClock();
+    // Text frames are pongs (and control replies, which the load test never asks for)
+    if (typeof data === "string") {
+      const reply = JSON.parse(data);
+      if (reply.op === "pong") client.pong?.(reply);
+      return;
+    }
+    if (!samples.measuring) return;
+
+    try {
+      const { header, payload } = readFrame(new Uint8Array(data as ArrayBuffer));
+      if (options.decode) {
+        const startTime = performance.now();
+        JSON.parse(textDecoder.decode(codecEntry?.decompress(payload) ?? payload));
+        samples.decodeMs.push(performance.now() - startTime);
+      }
+
+      client.messageIds.add(header.messageId);
+      // A snapshot repeats a frame the server sent earlier (to a client resuming after dropped frames)
+      if (header.snapshot) return;
+
+      const receiveMs = receivedAt - (header.generatedAt - samples.clockOffset);
+      samples.receiveMs.push(receiveMs);
+      if (receiveMs > lateMs) samples.late++;
+    } catch {
+      samples.errors++;
+    }
+  };
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      socket.close();
+      resolve(null);
+    }, CONNECT_TIMEOUT_MS);
+    socket.onopen = () => {
+      clearTimeout(timeout);
+      resolve(client);
+    };
+    socket.onclose = () => {
+      clearTimeout(timeout);
+      client.pong?.(null);
+      resolve(null);
+    };
+  });
+}
+
+// Offset of the server clock from the round trip with the least delay (see the dashboard's clock sync).
+// A ping that isn't answered within CONNECT_TIMEOUT_MS, or a closed socket, ends the sync with the
+// best offset so far (0 without any pong).
+async function syncClock(client: ClientState): Promise<number> {
+  let best = { rtt: Infinity, offset: 0 };
+  for (let i = 0; i < CLOCK_PINGS; i++) {
+    const reply = await new Promise<{ clientTime: number; serverTime: number } | null>((resolve) => {
+      const timeout = setTimeout(() => resolve(null), CONNECT_TIMEOUT_MS);
+      client.pong = (reply) => {
+        clearTimeout(timeout);
+        resolve(reply);
+      };
+      client.socket.send(JSON.stringify({ op: "ping", clientTime: wallClock() }));
+    });
+    if (!reply) {
+      console.warn(`⚠️ Clock sync stopped after ${i} of ${CLOCK_PINGS} pings: no pong within ${CONNECT_TIMEOUT_MS}ms or the socket closed`);
+      break;
+    }
+    const now = wallClock();
+    if (now - reply.clientTime < best.rtt) {
+      best = { rtt: now - reply.clientTime, offset: reply.serverTime - (reply.clientTime + now) / 2 };
+    }
+  }
+  client.pong = null;
+  return best.offset;
+}
+
+// --- Steps ---
+async function runStep(baseUrl: string, codec: CompressionType, clientCount: number, seconds: number, warmupSeconds: number, lateMs: number): Promise<StepResult> {
+  const wsUrl = baseUrl.replace(/^http/, "ws");
+  const samples: StepSamples = { measuring: false, clockOffset: 0, receiveMs: [], decodeMs: [], late: 0, errors: 0 };
+
+  const clients: ClientState[] = [];
+  for (let opened = 0; opened < clientCount; opened += CONNECT_BATCH) {
+    const batch = await Promise.all(Array.from({ length: Math.min(CONNECT_BATCH, clientCount - opened) }, () => openClient(wsUrl, codec, samples, lateMs)));
+    clients.push(...batch.filter(client => client !== null));
+  }
+  if (clients.length < clientCount) {
+    console.warn(`⚠️ Only ${clients.length} of ${clientCount} clients connected`);
+  }
+
+  const [first] = clients;
+  if (first) samples.clockOffset = await syncClock(first);
+  await sleep(warmupSeconds * 1000);
+
+  // Measurement window
+  const before = await scrapeMetrics(baseUrl);
+  const clientCpuBefore = process.cpuUsage();
+  const startTime = performance.now();
+  let peakRss = sumMetric(before, "process_resident_memory_bytes");
+  samples.measuring = true;
+
+  const poll = setInterval(() => {
+    // A failed scrape only loses that sample
+    scrapeMetrics(baseUrl)
+      .then((metrics) => { peakRss = Math.max(peakRss, sumMetric(metrics, "process_resident_memory_bytes")); })
+      .catch(() => {});
+  }, METRICS_POLL_MS);
+  await sleep(seconds * 1000);
+  clearInterval(poll);
+
+  samples.measuring = false;
+  const elapsedSeconds = (performance.now() - startTime) / 1000;
+  const clientCpu = process.cpuUsage(clientCpuBefore);
+  const after = await scrapeMetrics(baseUrl);
+  peakRss = Math.max(peakRss, sumMetric(after, "process_resident_memory_bytes"));
+
+  for (const client of clients) client.socket.close();
+
+  // Every tick that reached any client was due at every client
+  let firstId = Infinity;
+  let lastId = -Infinity;
+  for (const client of clients) {
+    for (const id of client.messageIds) {
+      if (id < firstId) firstId = id;
+      if (id > lastId) lastId = id;
+    }
+  }
+  const ticksSeen = lastId >= firstId ? lastId - firstId + 1 : 0;
+  const messages = clients.reduce((sum, client) => sum + client.messageIds.size, 0);
+  const expected = ticksSeen * clients.length;
+
+  const delta = (name: string) => sumMetric(after, name) - sumMetric(before, name);
+  return {
+    codec,
+    clients: clientCount,
+    connected: clients.length,
+    seconds: elapsedSeconds,
+    messages,
+    expected,
+    dropped: expected - messages,
+    late: samples.late,
+    errors: samples.errors,
+    receiveP50Ms: percentile(samples.receiveMs, 50),
+    receiveP95Ms: percentile(samples.receiveMs, 95),
+    receiveP99Ms: percentile(samples.receiveMs, 99),
+    decodeMeanMs: samples.decodeMs.length > 0 ? samples.decodeMs.reduce((a, b) => a + b, 0) / samples.decodeMs.length : null,
+    ticks: delta("broadcast_tick_duration_seconds_count"),
+    tickOverruns: delta("broadcast_tick_overruns_total"),
+    tickP95Ms: histogramQuantileMs(before, after, "broadcast_tick_duration_seconds", 0.95),
+    completionP95Ms: histogramQuantileMs(before, after, "broadcast_tick_completion_seconds", 0.95),
+    publishP95Ms: histogramQuantileMs(before, after, "publish_duration_seconds", 0.95),
+    eventLoopLagP95Ms: histogramQuantileMs(before, after, "event_loop_lag_seconds", 0.95),
+    serverCpuPercent: delta("process_cpu_seconds_total") / elapsedSeconds * 100,
+    serverPeakRssMB: peakRss / 1024 / 1024,
+    clientCpuPercent: (clientCpu.user + clientCpu.system) / 1e6 / elapsedSeconds * 100
+  };
+}
+
+// --- Output ---
+const CSV_COLUMNS: (keyof StepResult)[] = [
+  "codec", "clients", "connected", "seconds", "messages", "expected", "dropped", "late", "errors",
+  "receiveP50Ms", "receiveP95Ms", "receiveP99Ms", "decodeMeanMs", "ticks", "tickOverruns", "tickP95Ms",
+  "completionP95Ms", "publishP95Ms", "eventLoopLagP95Ms", "serverCpuPercent", "serverPeakRssMB", "clientCpuPercent"
+];
+
+function toCsv(results: StepResult[]): string {
+  const rows = results.map(result => CSV_COLUMNS.map(column => {
+    const value = result[column];
+    if (value === null) return "";
+    return typeof value === "number" && !Number.isInteger(value) ? value.toFixed(2) : String(value);
+  }).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+const ms = (value: number | null) => (value === null ? "-" : value.toFixed(1)).padStart(8);
+
+function printSummary(codec: CompressionType, results: StepResult[]) {
+  console.log(`\n📋 ${codec}`);
+  console.log(`  ${"clients".padStart(7)} ${"msgs".padStart(7)} ${"dropped".padStart(7)} ${"late".padStart(6)}  ${"recv p50".padStart(8)} ${"p95".padStart(8)} ${"p99".padStart(8)}  ${"tick p95".padStart(8)} ${"done p95".padStart(8)} ${"pub p95".padStart(8)} ${"lag p95".padStart(8)}  ${"srv CPU".padStart(7)} ${"srv RSS".padStart(8)} ${"cli CPU".padStart(7)}`);
+  for (const result of results) {
+    console.log(`  ${String(result.connected).padStart(7)} ${String(result.messages).padStart(7)} ${String(result.dropped).padStart(7)} ${String(result.late).padStart(6)}  ` +
+      `${ms(result.receiveP50Ms)} ${ms(result.receiveP95Ms)} ${ms(result.receiveP99Ms)}  ` +
+      `${ms(result.tickP95Ms)} ${ms(result.completionP95Ms)} ${ms(result.publishP95Ms)} ${ms(result.eventLoopLagP95Ms)}  ` +
+      `${`${result.serverCpuPercent.toFixed(0)}%`.padStart(7)} ${`${result.serverPeakRssMB.toFixed(0)}MB`.padStart(8)} ${`${result.clientCpuPercent.toFixed(0)}%`.padStart(7)}`);
+  }
+}
+
+// --- Run ---
+const baseUrl = options.url.replace(/^ws/, "http").replace(/\/$/, "");
+const codecList = options.codecs.split(",").filter(Boolean);
+const clientCounts = parseIntegerList("clients", options.clients);
+const seconds = parseSeconds("duration", options.duration, 1);
+const warmupSeconds = parseSeconds("warmup", options.warmup, 0);
+const lateMs = parseSeconds("late-ms", options["late-ms"], 0);
+
+for (const codec of codecList) {
+  if (!codecs.has(codec)) fail(`codec must be one of ${[...codecs.keys()].join(", ")}`);
+}
+try {
+  await fetch(`${baseUrl}/health`);
+} catch {
+  fail(`No server at ${baseUrl}; start it with bun run start`);
+}
+
+console.log(`🏋️ Load testing ${baseUrl}: ${codecList.join(", ")} × ${clientCounts.join(", ")} clients (${seconds}s per step after ${warmupSeconds}s warmup${options.decode ? ", decoding every frame" : ""})`);
+
+const results: StepResult[] = [];
+for (const codec of codecList) {
+  for (const clientCount of clientCounts) {
+    const result = await runStep(baseUrl, codec, clientCount, seconds, warmupSeconds, lateMs);
+    results.push(result);
+    console.log(`  ⏱️ ${codec.padEnd(12)} ${String(result.connected).padStart(6)} clients: ${result.messages.toLocaleString()} messages, ${result.dropped} dropped, ${result.late} late, receive p95 ${ms(result.receiveP95Ms).trim()}ms, server CPU ${result.serverCpuPercent.toFixed(0)}%`);
+    // Let the server drop the closed subscriptions before the next step
+    await sleep(1000);
+  }
+}
+
+for (const codec of codecList) {
+  printSummary(codec, results.filter(result => result.codec === codec));
+}
+
+await Bun.write(`${options.out}.csv`, toCsv(results));
+await Bun.write(`${options.out}.json`, JSON.stringify({
+  url: baseUrl,
+  decode: options.decode,
+  seconds,
+  warmupSeconds,
+  lateMs,
+  results
+}, null, 2));
+
+console.log(`\n💾 Wrote ${results.length} steps to ${options.out}.csv and ${options.out}.json`);
+process.exit(0);
@@ -0,0 +1,125 @@
+// --- Prometheus text exposition ---
+// Counters, gauges and histograms rendered in the Prometheus text format (version 0.0.4).
+// Every metric created here is registered once and served by renderMetrics().
+
+export type MetricLabels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples(): string[];
+}
+
+interface LabelledValue<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const families: MetricFamily[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+// Series are kept per label set; the key is independent of the order the labels were given in
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, LabelledValue<number>>();
+
+  families.push({
+    name,
+    help,
+    type: "counter",
+    samples: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+  });
+
+  return {
+    inc(labels: MetricLabels = {}, amount = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    }
+  };
+}
+
+// Gauges are read at scrape time, so they always show the current state
+export function createGauge(name: string, help: string, collect: () => LabelledValue<number>[]) {
+  families.push({
+    name,
+    help,
+    type: "gauge",
+    samples: () => collect().map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+  });
+}
+
+// Counters kept outside this module (e.g. the process CPU time), read at scrape time
+export function createCounterFunction(name: string, help: string, collect: () => LabelledValue<number>[]) {
+  families.push({
+    name,
+    help,
+    type: "counter",
+    samples: () => collect().map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+  });
+}
+
+// Buckets are upper bounds in ascending order; the +Inf bucket is added automatically
+export function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, LabelledValue<HistogramValue>>();
+
+  families.push({
+    name,
+    help,
+    type: "histogram",
+    samples: () => [...series.values()].flatMap(({ labels, value }) => [
+      ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index] ?? 0}`),
+      `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${name}_count${formatLabels(labels)} ${value.count}`
+    ])
+  });
+
+  return {
+    observe(labels: MetricLabels, value: number) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: { counts: buckets.map(() => 0), sum: 0, count: 0 } };
+      buckets.forEach((bound, index) => {
+        if (value <= bound) entry.value.counts[index] = (entry.value.counts[index] ?? 0) + 1;
+      });
+      entry.value.sum += value;
+      entry.value.count++;
+      series.set(key, entry);
+    }
+  };
+}
+
+export function renderMetrics(): string {
+  return families.map(family => [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...family.samples()
+  ].join("\n")).join("\n") + "\n";
+}
@@ -0,0 +1,222 @@
+// --- Serialization formats ---
+// How a tick is turned into bytes before a codec compresses it. Every format combines with every
+// codec; /feed takes it as `format=` and names it in each frame's envelope. MessagePack and CBOR are encoded
+// here (no dependency) with JSON's data model: objects, arrays, strings, numbers, booleans and null.
+// The dashboard has matching decoders.
+
+export type SerializationFormat = string;
+
+export interface Serializer {
+  name: SerializationFormat;
+  label: string;
+  serialize(data: unknown): Uint8Array;
+}
+
+interface ByteWriter {
+  byte(value: number): void;
+  bytes(value: Uint8Array): void;
+  uint16(value: number): void;
+  uint32(value: number): void;
+  // Integers up to 2^53 in 8 bytes (big-endian, two's complement for negative values)
+  int64(value: number): void;
+  float64(value: number): void;
+  finish(): Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+
+function createByteWriter(): ByteWriter {
+  let buffer = new Uint8Array(64 * 1024);
+  let view = new DataView(buffer.buffer);
+  let length = 0;
+
+  const reserve = (size: number) => {
+    if (length + size <= buffer.length) return;
+    const grown = new Uint8Array(Math.max(buffer.length * 2, length + size));
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+    view = new DataView(buffer.buffer);
+  };
+
+  return {
+    byte(value) {
+      reserve(1);
+      buffer[length++] = value;
+    },
+    bytes(value) {
+      reserve(value.length);
+      buffer.set(value, length);
+      length += value.length;
+    },
+    uint16(value) {
+      reserve(2);
+      view.setUint16(length, value);
+      length += 2;
+    },
+    uint32(value) {
+      reserve(4);
+      view.setUint32(length, value);
+      length += 4;
+    },
+    int64(value) {
+      reserve(8);
+      view.setInt32(length, Math.floor(value / 2 ** 32));
+      view.setUint32(length + 4, value >>> 0);
+      length += 8;
+    },
+    float64(value) {
+      reserve(8);
+      view.setFloat64(length, value);
+      length += 8;
+    },
+    finish() {
+      return buffer.slice(0, length);
+    }
+  };
+}
+
+// Applies JSON.stringify's rules: toJSON() is called, and undefined and function values are left out
+// of objects (and become null in arrays)
+function toJsonValue(value: unknown): unknown {
+  if (value !== null && typeof value === "object" && typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    return (value as { toJSON(): unknown }).toJSON();
+  }
+  return value;
+}
+
+function jsonEntries(value: object): [string, unknown][] {
+  return Object.entries(value)
+    .map(([key, entry]): [string, unknown] => [key, toJsonValue(entry)])
+    .filter(([, entry]) => entry !== undefined && typeof entry !== "function");
+}
+
+// --- MessagePack ---
+function writeMsgpack(writer: ByteWriter, input: unknown) {
+  const value = toJsonValue(input);
+
+  if (value === null || value === undefined || typeof value === "function" || (typeof value === "number" && !Number.isFinite(value))) {
+    writer.byte(0xc0);
+  } else if (typeof value === "boolean") {
+    writer.byte(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      writer.byte(0xcb);
+      writer.float64(value);
+    } else if (value >= 0) {
+      if (value < 0x80) writer.byte(value);
+      else if (value < 0x100) { writer.byte(0xcc); writer.byte(value); }
+      else if (value < 0x10000) { writer.byte(0xcd); writer.uint16(value); }
+      else if (value < 2 ** 32) { writer.byte(0xce); writer.uint32(value); }
+      else { writer.byte(0xcf); writer.int64(value); }
+    } else {
+      if (value >= -32) writer.byte(value & 0xff);
+      else if (value >= -0x80) { writer.byte(0xd0); writer.byte(value & 0xff); }
+      else if (value >= -0x8000) { writer.byte(0xd1); writer.uint16(value & 0xffff); }
+      else if (value >= -(2 ** 31)) { writer.byte(0xd2); writer.uint32(value >>> 0); }
+      else { writer.byte(0xd3); writer.int64(value); }
+    }
+  } else if (typeof value === "string") {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length < 32) writer.byte(0xa0 | bytes.length);
+    else if (bytes.length < 0x100) { writer.byte(0xd9); writer.byte(bytes.length); }
+    else if (bytes.length < 0x10000) { writer.byte(0xda); writer.uint16(bytes.length); }
+    else { writer.byte(0xdb); writer.uint32(bytes.length); }
+    writer.bytes(bytes);
+  } else if (Array.isArray(value)) {
+    if (value.length < 16) writer.byte(0x90 | value.length);
+    else if (value.length < 0x10000) { writer.byte(0xdc); writer.uint16(value.length); }
+    else { writer.byte(0xdd); writer.uint32(value.length); }
+    for (const item of value) writeMsgpack(writer, item);
+  } else if (typeof value === "object") {
+    const entries = jsonEntries(value);
+    if (entries.length < 16) writer.byte(0x80 | entries.length);
+    else if (entries.length < 0x10000) { writer.byte(0xde); writer.uint16(entries.length); }
+    else { writer.byte(0xdf); writer.uint32(entries.length); }
+    for (const [key, entry] of entries) {
+      writeMsgpack(writer, key);
+      writeMsgpack(writer, entry);
+    }
+  } else {
+    throw new TypeError(`Cannot serialize ${typeof value} as MessagePack`);
+  }
+}
+
+// --- CBOR (RFC 8949) ---
+// Initial byte and argument of a data item: major type in the top 3 bits, then the shortest length form
+function writeCborHead(writer: ByteWriter, major: number, argument: number) {
+  const type = major << 5;
+  if (argument < 24) writer.byte(type | argument);
+  else if (argument < 0x100) { writer.byte(type | 24); writer.byte(argument); }
+  else if (argument < 0x10000) { writer.byte(type | 25); writer.uint16(argument); }
+  else if (argument < 2 ** 32) { writer.byte(type | 26); writer.uint32(argument); }
+  else { writer.byte(type | 27); writer.int64(argument); }
+}
+
+function writeCbor(writer: ByteWriter, input: unknown) {
+  const value = toJsonValue(input);
+
+  if (value === null || value === undefined || typeof value === "function" || (typeof value === "number" && !Number.isFinite(value))) {
+    writer.byte(0xf6);
+  } else if (typeof value === "boolean") {
+    writer.byte(value ? 0xf5 : 0xf4);
+  } else if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      writer.byte(0xfb);
+      writer.float64(value);
+    } else if (value >= 0) {
+      writeCborHead(writer, 0, value);
+    } else {
+      writeCborHead(writer, 1, -1 - value);
+    }
+  } else if (typeof value === "string") {
+    const bytes = textEncoder.encode(value);
+    writeCborHead(writer, 3, bytes.length);
+    writer.bytes(bytes);
+  } else if (Array.isArray(value)) {
+    writeCborHead(writer, 4, value.length);
+    for (const item of value) writeCbor(writer, item);
+  } else if (typeof value === "object") {
+    const entries = jsonEntries(value);
+    writeCborHead(writer, 5, entries.length);
+    for (const [key, entry] of entries) {
+      writeCbor(writer, key);
+      writeCbor(writer, entry);
+    }
+  } else {
+    throw new TypeError(`Cannot serialize ${typeof value} as CBOR`);
+  }
+}
+
+// --- Serializer registry ---
+// The position of a serializer is its wire tag in the frame envelope (see envelope.ts), so JSON must stay first
+export const SERIALIZERS: Serializer[] = [
+  {
+    name: "json",
+    label: "JSON",
+    serialize: (data) => Buffer.from(JSON.stringify(data))
+  },
+  {
+    name: "msgpack",
+    label: "MessagePack",
+    serialize: (data) => {
+      const writer = createByteWriter();
+      writeMsgpack(writer, data);
+      return writer.finish();
+    }
+  },
+  {
+    name: "cbor",
+    label: "CBOR",
+    serialize: (data) => {
+      const writer = createByteWriter();
+      writeCbor(writer, data);
+      return writer.finish();
+    }
+  }
+];
+
+export const serializers = new Map(SERIALIZERS.map(serializer => [serializer.name, serializer]));
+
+export function serializerTag(name: SerializationFormat): number {
+  return SERIALIZERS.findIndex(serializer => serializer.name === name);
+}
@@ -0,0 +1,240 @@
+import { generateLargePriceDataset } from "./dataset";
+
+// --- Data sources ---
+// Where the rows of each broadcast come from. A source hands out one batch per message together with
+// how long to wait before it is sent, so replayed captures keep their recorded pacing. Every batch
+// goes through the same serializers, layouts and codecs, whatever the source.
+
+export type SourceRow = Record<string, unknown>;
+
+export interface SourceBatch {
+  rows: SourceRow[];
+  // Milliseconds to wait after the previous batch before broadcasting this one
+  delayMs: number;
+}
+
+export interface DataSource {
+  // Shown in the startup banner, e.g. "generator (1,000 items every 2000ms)"
+  description: string;
+  // Null once a source that does not loop is exhausted
+  next(): SourceBatch | null;
+  // Representative rows (up to count) for training the compression dictionaries
+  sample(count: number): SourceRow[];
+}
+
+export type ReplayFormat = "ndjson" | "csv";
+
+export const REPLAY_FORMATS: ReplayFormat[] = ["ndjson", "csv"];
+
+export interface ReplayOptions {
+  format: ReplayFormat;
+  path: string;
+  // Playback speed relative to the recorded time (2 plays twice as fast)
+  speed: number;
+  loop: boolean;
+  // Batches of this many records, or of every record within windowMs of recorded time
+  batchSize?: number;
+  windowMs?: number;
+  // Field holding each record's time: epoch milliseconds, or a string Date.parse understands
+  timestampField: string;
+  // CSV columns that stay strings even when every cell is a number, e.g. prices that must keep "0.50"
+  textColumns: string[];
+}
+
+interface RecordedBatch {
+  rows: SourceRow[];
+  startTime: number;
+}
+
+// --- Synthetic generator ---
+// The original demo data: the same generated rows every interval, with a fresh timestamp
+export function createGeneratorSource(count: number, intervalMs: number): DataSource {
+  const dataset = generateLargePriceDataset(count);
+
+  return {
+    description: `generator (${count.toLocaleString()} items every ${intervalMs}ms)`,
+    next: () => ({
+      rows: dataset.map(item => ({ ...item, ts: Date.now() })),
+      delayMs: intervalMs
+    }),
+    sample: (sampleCount) => generateLargePriceDataset(sampleCount).map(item => ({ ...item }))
+  };
+}
+
+// --- Capture parsing ---
+function parseNdjson(text: string): SourceRow[] {
+  const rows: SourceRow[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`line ${index + 1} is not valid JSON`);
+    }
+    if (typeof row !== "object" || row === null || Array.isArray(row)) {
+      throw new Error(`line ${index + 1} is not a JSON object`);
+    }
+    rows.push(row as SourceRow);
+  });
+  return rows;
+}
+
+// RFC 4180 fields: quoted fields may hold commas, newlines and doubled quotes
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(fields => fields.some(Boolean));
+}
+
+// A cell that prints back unchanged as a number could be one ("42", "0.5"); "45000.10", "007" or
+// an empty cell could not without losing formatting
+function isNumericCell(cell: string): boolean {
+  return cell !== "" && String(Number(cell)) === cell;
+}
+
+// Types are per column, so a field has one type in every row: a column is numeric only when all of
+// its cells are, otherwise every cell stays text (a column with "45000.10" in it is all strings)
+function parseCsv(text: string, textColumns: string[]): SourceRow[] {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) throw new Error("no header row");
+
+  records.forEach((fields, index) => {
+    if (fields.length !== header.length) {
+      throw new Error(`record ${index + 1} has ${fields.length} fields, the header has ${header.length}`);
+    }
+  });
+  const numericColumns = header.map((name, column) =>
+    !textColumns.includes(name) && records.length > 0 && records.every(fields => isNumericCell(fields[column] ?? "")));
+
+  return records.map(fields => Object.fromEntries(header.map((name, column) => {
+    const cell = fields[column] ?? "";
+    return [name, numericColumns[column] ? Number(cell) : cell];
+  })));
+}
+
+function recordTime(row: SourceRow, field: string): number | null {
+  const value = row[field];
+  const time = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+// --- Batching ---
+function batchRecords(rows: SourceRow[], times: number[], options: ReplayOptions): RecordedBatch[] {
+  const batches: RecordedBatch[] = [];
+
+  if (options.batchSize) {
+    for (let i = 0; i < rows.length; i += options.batchSize) {
+      batches.push({ rows: rows.slice(i, i + options.batchSize), startTime: times[i] ?? 0 });
+    }
+    return batches;
+  }
+
+  // Windows are aligned on the first record; empty windows produce no message
+  const windowMs = options.windowMs ?? 0;
+  const firstTime = times[0] ?? 0;
+  rows.forEach((row, index) => {
+    const startTime = firstTime + Math.floor(((times[index] ?? 0) - firstTime) / windowMs) * windowMs;
+    const last = batches[batches.length - 1];
+    if (last?.startTime === startTime) {
+      last.rows.push(row);
+    } else {
+      batches.push({ rows: [row], startTime });
+    }
+  });
+  return batches;
+}
+
+// --- File replay ---
+// Loads the whole capture at startup and replays its batches in recorded order. The wait between two
+// batches is the recorded time between their starts divided by the speed, but at least
+// MIN_REPLAY_DELAY_MS; a loop restarts after one window (or the average gap between batches when
+// batching by count, and DEFAULT_LOOP_GAP_MS when there is no gap to average: a single batch, or
+// every record at the same time).
+const MIN_REPLAY_DELAY_MS = 10;
+const DEFAULT_LOOP_GAP_MS = 2000;
+
+export async function createReplaySource(options: ReplayOptions): Promise<DataSource> {
+  const text = await Bun.file(options.path).text();
+  const rows = options.format === "ndjson" ? parseNdjson(text) : parseCsv(text, options.textColumns);
+  if (rows.length === 0) throw new Error("no records");
+
+  const times = rows.map((row, index) => {
+    const time = recordTime(row, options.timestampField);
+    if (time === null) throw new Error(`record ${index + 1} has no valid "${options.timestampField}" timestamp`);
+    return time;
+  });
+  for (let i = 1; i < times.length; i++) {
+    if ((times[i] ?? 0) < (times[i - 1] ?? 0)) {
+      throw new Error(`record ${i + 1} is older than the record before it; captures must be in time order`);
+    }
+  }
+
+  const batches = batchRecords(rows, times, options);
+  const firstStart = batches[0]?.startTime ?? 0;
+  const lastStart = batches[batches.length - 1]?.startTime ?? 0;
+  const averageGapMs = batches.length > 1 ? (lastStart - firstStart) / (batches.length - 1) : 0;
+  const loopGapMs = options.windowMs ?? (averageGapMs > 0 ? averageGapMs : DEFAULT_LOOP_GAP_MS);
+
+  let position = 0;
+  let previousStart: number | null = null;
+
+  const batching = options.batchSize ? `${options.batchSize} records per message` : `${options.windowMs}ms windows`;
+  return {
+    description: `${options.format} replay of ${options.path} (${rows.length.toLocaleString()} records in ${batches.length.toLocaleString()} messages, ${batching}, ${options.speed}x${options.loop ? ", looping" : ""})`,
+    next() {
+      if (position === batches.length) {
+        if (!options.loop) return null;
+        position = 0;
+        previousStart = firstStart - loopGapMs;
+      }
+
+      const batch = batches[position++];
+      if (!batch) return null;
+
+      const delayMs = previousStart === null ? 0 : Math.max((batch.startTime - previousStart) / options.speed, MIN_REPLAY_DELAY_MS);
+      previousStart = batch.startTime;
+      return { rows: batch.rows, delayMs };
+    },
+    // Spread over the whole capture rather than its first records
+    sample(count) {
+      const step = Math.max(rows.length / count, 1);
+      return Array.from({ length: Math.min(count, rows.length) }, (_, index) => rows[Math.floor(index * step)] ?? {});
+    }
+  };
+}
@@ -0,0 +1,29 @@
+// Minimal typings for the parts of zstd-codec used by the server
+declare module "zstd-codec" {
+  interface ZstdCompressionDict {
+    close(): void;
+  }
+
+  interface ZstdDecompressionDict {
+    close(): void;
+  }
+
+  interface ZstdSimple {
+    compress(content: Uint8Array, compressionLevel?: number): Uint8Array | null;
+    decompress(compressed: Uint8Array): Uint8Array | null;
+    compressUsingDict(content: Uint8Array, cdict: ZstdCompressionDict): Uint8Array | null;
+    decompressUsingDict(compressed: Uint8Array, ddict: ZstdDecompressionDict): Uint8Array | null;
+  }
+
+  interface ZstdBinding {
+    Simple: new () => ZstdSimple;
+    Dict: {
+      Compression: new (dictionary: Uint8Array, compressionLevel?: number) => ZstdCompressionDict;
+      Decompression: new (dictionary: Uint8Array) => ZstdDecompressionDict;
+    };
+  }
+
+  export const ZstdCodec: {
+    run(callback: (zstd: ZstdBinding) => void): void;
+  };
+}